@@ -0,0 +1,14 @@
+import { parse, withErrors } from "../../../../../server/http";
+import { listParams, taskStore } from "../../../../../server/tasks";
+
+// POST /api/lists/:period/:date/copy-incompletes: copies the previous
+// period's unfinished tasks onto this list
+export const onRequestPost = withErrors<"period" | "date">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    const { period, date } = parse(listParams, params);
+    return Response.json(await store.copyIncompletes(date, period), {
+      status: 201,
+    });
+  }
+);
@@ -0,0 +1,16 @@
+import { parse, parseBody, withErrors } from "../../../../../server/http";
+import {
+  listParams,
+  orderRequest,
+  taskStore,
+} from "../../../../../server/tasks";
+
+// PUT /api/lists/:period/:date/order: { ids } in their new order
+export const onRequestPut = withErrors<"period" | "date">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    const { period, date } = parse(listParams, params);
+    const { ids } = await parseBody(request, orderRequest);
+    return Response.json(await store.updateOrder(date, period, ids));
+  }
+);
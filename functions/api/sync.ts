@@ -0,0 +1,21 @@
+import { HttpError, parseBody, withErrors } from "../../server/http";
+import { pushRequest } from "../../server/protocol";
+import { pullChanges, pushChanges, spaceFor } from "../../server/sync";
+
+// GET /api/sync?since=<cursor>: changes from other devices
+export const onRequestGet = withErrors(async ({ request, env }) => {
+  const space = await spaceFor(request);
+  const since = Number(new URL(request.url).searchParams.get("since") ?? 0);
+  if (!Number.isInteger(since) || since < 0) {
+    throw new HttpError(400, "Invalid cursor.");
+  }
+  return Response.json(await pullChanges(env.SYNC_DB, space, since));
+});
+
+// POST /api/sync: this device's changes
+export const onRequestPost = withErrors(async ({ request, env }) => {
+  const space = await spaceFor(request);
+  const { changes } = await parseBody(request, pushRequest);
+  const accepted = await pushChanges(env.SYNC_DB, space, changes);
+  return Response.json({ accepted });
+});
@@ -0,0 +1,28 @@
+import { parseBody, withErrors } from "../../../server/http";
+import { taskStore, updateTaskRequest } from "../../../server/tasks";
+
+// GET /api/tasks/:id
+export const onRequestGet = withErrors<"id">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    return Response.json(await store.read(String(params.id)));
+  }
+);
+
+// PATCH /api/tasks/:id: { name?, notes?, url?, priority? }
+export const onRequestPatch = withErrors<"id">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    const changes = await parseBody(request, updateTaskRequest);
+    return Response.json(await store.update(String(params.id), changes));
+  }
+);
+
+// DELETE /api/tasks/:id, with its subtasks
+export const onRequestDelete = withErrors<"id">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    await store.delete(String(params.id));
+    return new Response(null, { status: 204 });
+  }
+);
@@ -0,0 +1,10 @@
+import { withErrors } from "../../../../server/http";
+import { taskStore } from "../../../../server/tasks";
+
+// POST /api/tasks/:id/incomplete
+export const onRequestPost = withErrors<"id">(
+  async ({ request, env, params }) => {
+    const store = await taskStore(request, env);
+    return Response.json(await store.markIncomplete(String(params.id)));
+  }
+);
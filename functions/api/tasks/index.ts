@@ -0,0 +1,20 @@
+import { parse, parseBody, withErrors } from "../../../server/http";
+import { createTaskRequest, listQuery, taskStore } from "../../../server/tasks";
+
+// GET /api/tasks?date=2026-10-19&period=days: tasks on a list, or every
+// list for that date without a period, or everything without a date
+export const onRequestGet = withErrors(async ({ request, env }) => {
+  const store = await taskStore(request, env);
+  const { date, period } = parse(
+    listQuery,
+    Object.fromEntries(new URL(request.url).searchParams)
+  );
+  return Response.json(await store.list(date, period));
+});
+
+// POST /api/tasks: { name, date, period?, parentId?, notes?, url?, priority? }
+export const onRequestPost = withErrors(async ({ request, env }) => {
+  const store = await taskStore(request, env);
+  const input = await parseBody(request, createTaskRequest);
+  return Response.json(await store.create(input), { status: 201 });
+});
@@ -0,0 +1,14 @@
+-- Latest change to each row of each planner, keyed by a hash of its sync code.
+-- seq orders changes within a planner so clients can pull what they haven't
+-- seen yet.
+CREATE TABLE sync_row (
+  space TEXT NOT NULL,
+  tbl TEXT NOT NULL,
+  key TEXT NOT NULL,
+  row TEXT,
+  updatedAt INTEGER NOT NULL,
+  seq INTEGER NOT NULL,
+  PRIMARY KEY (space, tbl, key)
+);
+
+CREATE INDEX sync_row_seq ON sync_row (space, seq);
@@ -0,0 +1,107 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import type { Period } from "./tasks";
+
+// The app stores each list's date as the instant its period starts on the
+// device that made it, e.g. midnight on Sunday for a week. The server has no
+// timezone of its own, so API requests say which one their dates are in and
+// the work is done on plain calendar dates ("2026-10-19").
+
+const CALENDAR_DATE = "yyyy-MM-dd";
+
+// Milliseconds the timezone is ahead of UTC at that instant
+const offsetAt = (instant: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// The instant a calendar date starts in the timezone
+export const midnightIn = (date: string, timeZone: string): Date => {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+  // A second pass picks up the right offset on days the clocks change
+  const guess = utcMidnight - offsetAt(new Date(utcMidnight), timeZone);
+  return new Date(utcMidnight - offsetAt(new Date(guess), timeZone));
+};
+
+// The calendar date of an instant in the timezone
+export const calendarDateIn = (instant: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+
+// First and day-after-last calendar dates of the period containing a date
+export const periodRange = (
+  date: string,
+  period: Period
+): { start: string; end: string } => {
+  const day = parseISO(date);
+  const [start, next] =
+    period === "weeks"
+      ? [startOfWeek(day), (d: Date) => addWeeks(d, 1)]
+      : period === "months"
+      ? [startOfMonth(day), (d: Date) => addMonths(d, 1)]
+      : period === "year"
+      ? [startOfYear(day), (d: Date) => addYears(d, 1)]
+      : [day, (d: Date) => addDays(d, 1)];
+  return {
+    start: format(start, CALENDAR_DATE),
+    end: format(next(start), CALENDAR_DATE),
+  };
+};
+
+// The same period one before, as for copying last time's unfinished tasks
+export const previousPeriod = (date: string, period: Period): string => {
+  const day = parseISO(periodRange(date, period).start);
+  return format(
+    period === "weeks"
+      ? addWeeks(day, -1)
+      : period === "months"
+      ? addMonths(day, -1)
+      : period === "year"
+      ? addYears(day, -1)
+      : addDays(day, -1),
+    CALENDAR_DATE
+  );
+};
+
+export const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
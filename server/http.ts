@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { SyncAuthError } from "./sync";
+
+export interface Env {
+  SYNC_DB: D1Database;
+}
+
+// An error the client caused, reported with its status and message
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+// Turns thrown errors into JSON error responses
+export const withErrors =
+  <Params extends string = never>(
+    handler: PagesFunction<Env, Params>
+  ): PagesFunction<Env, Params> =>
+  async (context) => {
+    try {
+      return await handler(context);
+    } catch (e) {
+      if (e instanceof SyncAuthError) {
+        return Response.json({ error: e.message }, { status: 401 });
+      } else if (e instanceof HttpError) {
+        return Response.json({ error: e.message }, { status: e.status });
+      }
+      console.error(e);
+      return Response.json({ error: "Something went wrong." }, { status: 500 });
+    }
+  };
+
+const describeIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+
+export const parse = <T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown
+): z.infer<T> => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new HttpError(400, describeIssue(result.error.issues[0]));
+  }
+  return result.data;
+};
+
+export const parseBody = async <T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): Promise<z.infer<T>> =>
+  parse(schema, await request.json().catch(() => undefined));
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// What the planner and the sync server say to each other. Rows travel as
+// whole values: a change is a row as it stood at updatedAt, and whichever
+// change to a row has the latest updatedAt wins.
+
+// Most changes sent or returned in one request
+export const MAX_BATCH = 500;
+
+export const syncChange = z.object({
+  table: z.string().min(1),
+  // JSON array of the row's key columns, e.g. ["V1StGXR8_Z"]
+  key: z.string().min(1),
+  // null when the row was deleted
+  row: z.record(z.union([z.string(), z.number(), z.null()])).nullable(),
+  // Milliseconds since the epoch, by the clock of the device that made it
+  updatedAt: z.number().int().nonnegative(),
+});
+
+export type SyncChange = z.infer<typeof syncChange>;
+
+export const pushRequest = z.object({
+  changes: z.array(syncChange).max(MAX_BATCH),
+});
+
+export type PushRequest = z.infer<typeof pushRequest>;
+
+export interface PushResponse {
+  // How many changes were newer than what the server had
+  accepted: number;
+}
+
+export interface PullResponse {
+  changes: SyncChange[];
+  // Pass back as ?since= to get only what changed after these
+  cursor: number;
+  more: boolean;
+}
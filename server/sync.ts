@@ -0,0 +1,96 @@
+import { MAX_BATCH, PullResponse, SyncChange } from "./protocol";
+
+// Sync codes are long random strings shared between a person's devices.
+// Anyone with the code can read and write that planner.
+export const MIN_CODE_LENGTH = 16;
+
+export class SyncAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncAuthError";
+  }
+}
+
+// Which planner a request is for, from its "Authorization: Bearer <code>"
+// header. Only a hash of the code is stored.
+export const spaceFor = async (request: Request): Promise<string> => {
+  const match = /^Bearer (\S+)$/.exec(
+    request.headers.get("Authorization") ?? ""
+  );
+  if (!match || match[1].length < MIN_CODE_LENGTH) {
+    throw new SyncAuthError("A sync code is required.");
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(match[1])
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
+
+// Stores each change unless the server already has a newer one for that
+// row. Accepted changes go to the end of the planner's seq order.
+export const pushChanges = async (
+  db: D1Database,
+  space: string,
+  changes: SyncChange[]
+): Promise<number> => {
+  if (changes.length === 0) return 0;
+  const statement = db.prepare(
+    `INSERT INTO sync_row (space, tbl, key, row, updatedAt, seq)
+     VALUES (?1, ?2, ?3, ?4, ?5,
+       COALESCE((SELECT MAX(seq) FROM sync_row WHERE space = ?1), 0) + 1)
+     ON CONFLICT (space, tbl, key) DO UPDATE
+       SET row = excluded.row, updatedAt = excluded.updatedAt, seq = excluded.seq
+       WHERE excluded.updatedAt > sync_row.updatedAt`
+  );
+  // A batch runs as one transaction, so seq numbers can't interleave with
+  // another device's push
+  const results = await db.batch(
+    changes.map(({ table, key, row, updatedAt }) =>
+      statement.bind(
+        space,
+        table,
+        key,
+        row ? JSON.stringify(row) : null,
+        updatedAt
+      )
+    )
+  );
+  return results.reduce((total, { meta }) => total + meta.changes, 0);
+};
+
+export const pullChanges = async (
+  db: D1Database,
+  space: string,
+  since: number
+): Promise<PullResponse> => {
+  const { results } = await db
+    .prepare(
+      `SELECT tbl, key, row, updatedAt, seq FROM sync_row
+        WHERE space = ? AND seq > ?
+        ORDER BY seq
+        LIMIT ?`
+    )
+    .bind(space, since, MAX_BATCH + 1)
+    .all<{
+      tbl: string;
+      key: string;
+      row: string | null;
+      updatedAt: number;
+      seq: number;
+    }>();
+
+  const page = results.slice(0, MAX_BATCH);
+  return {
+    changes: page.map(({ tbl, key, row, updatedAt }) => ({
+      table: tbl,
+      key,
+      row: row === null ? null : JSON.parse(row),
+      updatedAt,
+    })),
+    cursor: page.length > 0 ? page[page.length - 1].seq : since,
+    more: results.length > MAX_BATCH,
+  };
+};
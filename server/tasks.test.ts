@@ -0,0 +1,231 @@
+// @vitest-environment node
+import { Database } from "sql.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { HttpError } from "./http";
+import { pushChanges } from "./sync";
+import { TaskStore } from "./tasks";
+import { openD1 } from "./test/d1";
+
+const SPACE = "space";
+const keyOf = (...values: string[]) => JSON.stringify(values);
+
+let d1: D1Database;
+let db: Database;
+let store: TaskStore;
+
+beforeEach(async () => {
+  ({ d1, db } = await openD1());
+  store = new TaskStore(d1, SPACE, "UTC");
+});
+
+const create = (
+  name: string,
+  more: { parentId?: string; date?: string } = {}
+) =>
+  store.create({
+    name,
+    date: more.parentId ? undefined : more.date ?? "2026-10-19",
+    period: "days",
+    parentId: more.parentId,
+    notes: "",
+    url: "",
+    priority: null,
+  });
+
+// The rows stored for a table, deleted ones as null
+const stored = (table: string) =>
+  Object.fromEntries(
+    (
+      db.exec("SELECT key, row FROM sync_row WHERE tbl = ?", [table])[0]
+        ?.values ?? []
+    ).map(([key, row]) => [
+      key,
+      row === null ? null : JSON.parse(row as string),
+    ])
+  );
+
+const rejects = async (promise: Promise<unknown>, status: number) => {
+  await expect(promise).rejects.toThrow(HttpError);
+  await expect(promise).rejects.toMatchObject({ status });
+};
+
+describe("TaskStore", () => {
+  it("adds tasks to the end of their list", async () => {
+    const first = await create("Water plants");
+    const second = await create("Call mum");
+    await create("Elsewhere", { date: "2026-10-20" });
+
+    expect(await store.list("2026-10-19", "days")).toEqual([
+      expect.objectContaining({ id: first.id, sortOrder: 1 }),
+      expect.objectContaining({ id: second.id, sortOrder: 2 }),
+    ]);
+    expect(await store.read(first.id)).toEqual({
+      id: first.id,
+      name: "Water plants",
+      complete: false,
+      sortOrder: 1,
+      period: "days",
+      date: "2026-10-19",
+      parentId: null,
+      notes: "",
+      url: "",
+      priority: null,
+    });
+    await rejects(store.read("missing"), 404);
+  });
+
+  it("puts subtasks on their parent's list, two levels deep at most", async () => {
+    const parent = await create("Clean house", { date: "2026-10-20" });
+    const child = await create("Kitchen", { parentId: parent.id });
+    const grandchild = await create("Oven", { parentId: child.id });
+
+    expect(child.date).toBe("2026-10-20");
+    expect(grandchild.parentId).toBe(child.id);
+    await rejects(create("Racks", { parentId: grandchild.id }), 400);
+  });
+
+  it("updates only the fields given", async () => {
+    const task = await create("Water plants");
+    await store.update(task.id, { notes: "The fern too", priority: 1 });
+
+    expect(await store.read(task.id)).toMatchObject({
+      name: "Water plants",
+      notes: "The fern too",
+      priority: 1,
+    });
+  });
+
+  it("writes after the stored change even if its clock is behind", async () => {
+    const task = await create("Water plants");
+    const ahead = Date.now() + 60_000;
+    db.run("UPDATE sync_row SET updatedAt = ?", [ahead]);
+
+    await store.update(task.id, { name: "Water the plants" });
+    expect((await store.read(task.id)).name).toBe("Water the plants");
+  });
+
+  it("finishes subtasks with their parent and unchecks parents with a subtask", async () => {
+    const parent = await create("Clean house");
+    const child = await create("Kitchen", { parentId: parent.id });
+    const grandchild = await create("Oven", { parentId: child.id });
+    const sibling = await create("Bathroom", { parentId: parent.id });
+
+    await store.markComplete(parent.id);
+    const complete = async () =>
+      Object.fromEntries(
+        (await store.list()).map(({ name, complete }) => [name, complete])
+      );
+    expect(await complete()).toEqual({
+      "Clean house": true,
+      Kitchen: true,
+      Oven: true,
+      Bathroom: true,
+    });
+
+    await store.markIncomplete(grandchild.id);
+    expect(await complete()).toEqual({
+      "Clean house": false,
+      Kitchen: false,
+      Oven: false,
+      Bathroom: true,
+    });
+    expect((await store.read(sibling.id)).complete).toBe(true);
+  });
+
+  it("deletes subtasks and tags with a task and closes the gap", async () => {
+    const first = await create("Clean house");
+    const child = await create("Kitchen", { parentId: first.id });
+    const last = await create("Call mum");
+    await pushChanges(d1, SPACE, [
+      {
+        table: "task_tag",
+        key: keyOf(child.id, "tag"),
+        row: { taskId: child.id, tagId: "tag" },
+        updatedAt: 1,
+      },
+    ]);
+
+    await store.delete(first.id);
+    expect(stored("task")).toMatchObject({
+      [keyOf(first.id)]: null,
+      [keyOf(child.id)]: null,
+    });
+    expect(stored("task_tag")).toEqual({ [keyOf(child.id, "tag")]: null });
+    expect(await store.list("2026-10-19", "days")).toEqual([
+      expect.objectContaining({ id: last.id, sortOrder: 0 }),
+    ]);
+  });
+
+  it("skips a repeating task's occurrence when it's deleted", async () => {
+    const task = await create("Water plants");
+    const occurrence = "2026-10-19T00:00:00.000Z";
+    const row = stored("task")[keyOf(task.id)];
+    await pushChanges(d1, SPACE, [
+      {
+        table: "task",
+        key: keyOf(task.id),
+        row: { ...row, recurrenceId: "weekly", occurrence },
+        updatedAt: Date.now() + 1,
+      },
+    ]);
+
+    await store.delete(task.id);
+    expect(stored("recurrence_skip")).toEqual({
+      [keyOf("weekly", occurrence)]: {
+        recurrenceId: "weekly",
+        date: occurrence,
+      },
+    });
+  });
+
+  it("reorders a list, refusing tasks from other lists", async () => {
+    const first = await create("Water plants");
+    const second = await create("Call mum");
+    const elsewhere = await create("Elsewhere", { date: "2026-10-20" });
+
+    expect(
+      (
+        await store.updateOrder("2026-10-19", "days", [second.id, first.id])
+      ).map(({ id }) => id)
+    ).toEqual([second.id, first.id]);
+    await rejects(
+      store.updateOrder("2026-10-19", "days", [elsewhere.id, first.id]),
+      400
+    );
+  });
+
+  it("copies unfinished tasks from the previous list", async () => {
+    const parent = await create("Clean house", { date: "2026-10-18" });
+    const child = await create("Kitchen", { parentId: parent.id });
+    const done = await create("Water plants", { date: "2026-10-18" });
+    await store.markComplete(done.id);
+    await store.update(parent.id, { notes: "Before Friday" });
+    await pushChanges(d1, SPACE, [
+      {
+        table: "task_tag",
+        key: keyOf(child.id, "tag"),
+        row: { taskId: child.id, tagId: "tag" },
+        updatedAt: 1,
+      },
+    ]);
+    const existing = await create("Call mum");
+
+    const copies = await store.copyIncompletes("2026-10-19", "days");
+    expect(copies).toEqual([
+      expect.objectContaining({
+        name: "Clean house",
+        date: "2026-10-19",
+        sortOrder: 2,
+        parentId: null,
+        notes: "",
+      }),
+      expect.objectContaining({ name: "Kitchen", parentId: copies[0].id }),
+    ]);
+    expect(stored("task_tag")).toMatchObject({
+      [keyOf(copies[1].id, "tag")]: { taskId: copies[1].id, tagId: "tag" },
+    });
+    expect(
+      (await store.list("2026-10-19", "days")).map(({ id }) => id)
+    ).toContain(existing.id);
+  });
+});
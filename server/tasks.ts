@@ -0,0 +1,459 @@
+import { customAlphabet } from "nanoid";
+import { z } from "zod";
+import {
+  calendarDateIn,
+  isTimeZone,
+  midnightIn,
+  periodRange,
+  previousPeriod,
+} from "./dates";
+import { Env, HttpError } from "./http";
+import { pushChanges, spaceFor } from "./sync";
+
+// Tasks for the REST API, read from and written to the rows the sync server
+// keeps, so changes reach the planner on every device at its next sync.
+// Operations mirror the app's DB class. Repeating tasks only show up here
+// once a device has saved an occurrence.
+
+// As in the app, a task, its subtask and theirs
+const MAX_SUBTASK_DEPTH = 2;
+
+export const PERIODS = ["days", "weeks", "months", "year"] as const;
+export type Period = (typeof PERIODS)[number];
+
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2026-10-19");
+const priority = z.number().int().min(1).max(4).nullable();
+
+export const listQuery = z.object({
+  date: calendarDate.optional(),
+  period: z.enum(PERIODS).optional(),
+});
+
+export const createTaskRequest = z
+  .object({
+    name: z.string().trim().min(1),
+    // Subtasks go on their parent's list, so don't need one
+    date: calendarDate.optional(),
+    period: z.enum(PERIODS).default("days"),
+    parentId: z.string().optional(),
+    notes: z.string().default(""),
+    url: z.string().default(""),
+    priority: priority.default(null),
+  })
+  .refine(({ date, parentId }) => date || parentId, {
+    message: "Either a date or a parentId is required",
+    path: ["date"],
+  });
+
+export const updateTaskRequest = z
+  .object({
+    name: z.string().trim().min(1),
+    notes: z.string(),
+    url: z.string(),
+    priority,
+  })
+  .partial()
+  .strict();
+
+export const orderRequest = z.object({ ids: z.array(z.string()) });
+
+// A task row as the app stores it
+type TaskRow = {
+  id: string;
+  name: string;
+  complete: number;
+  sortOrder: number;
+  period: Period;
+  date: string;
+  recurrenceId: string | null;
+  occurrence: string | null;
+  parentId: string | null;
+  notes: string | null;
+  url: string | null;
+  priority: number | null;
+  postponed: number;
+  originalDate: string | null;
+};
+
+// A task as the API shows it
+export interface ApiTask {
+  id: string;
+  name: string;
+  complete: boolean;
+  sortOrder: number;
+  period: Period;
+  date: string;
+  parentId: string | null;
+  notes: string;
+  url: string;
+  priority: number | null;
+}
+
+// Made the way the app makes its ids
+const generateId = customAlphabet("23456789ABCDEFGHIJKMNPQRSTUVWXYZ", 10);
+
+const keyOf = (...values: string[]) => JSON.stringify(values);
+
+export class TaskStore {
+  db: D1Database;
+  space: string;
+  timeZone: string;
+  // When each row read so far was last changed, so writes can be stamped
+  // later than that even if a device's clock runs ahead
+  updatedAt = new Map<string, number>();
+
+  constructor(db: D1Database, space: string, timeZone: string) {
+    this.db = db;
+    this.space = space;
+    this.timeZone = timeZone;
+  }
+
+  private async rows(where = "", params: unknown[] = []): Promise<TaskRow[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT key, row, updatedAt FROM sync_row
+          WHERE space = ? AND tbl = 'task' AND row IS NOT NULL ${where}`
+      )
+      .bind(this.space, ...params)
+      .all<{ key: string; row: string; updatedAt: number }>();
+    return results.map(({ key, row, updatedAt }) => {
+      this.updatedAt.set(`task ${key}`, updatedAt);
+      return JSON.parse(row) as TaskRow;
+    });
+  }
+
+  private async write(
+    changes: {
+      table: string;
+      key: string;
+      row: TaskRow | Record<string, string> | null;
+    }[]
+  ) {
+    const now = Date.now();
+    await pushChanges(
+      this.db,
+      this.space,
+      changes.map(({ table, key, row }) => ({
+        table,
+        key,
+        row,
+        updatedAt: Math.max(
+          now,
+          (this.updatedAt.get(`${table} ${key}`) ?? 0) + 1
+        ),
+      }))
+    );
+  }
+
+  private toApiTask = (row: TaskRow): ApiTask => ({
+    id: row.id,
+    name: row.name,
+    complete: !!row.complete,
+    sortOrder: row.sortOrder,
+    period: row.period,
+    date: calendarDateIn(new Date(row.date), this.timeZone),
+    parentId: row.parentId,
+    notes: row.notes ?? "",
+    url: row.url ?? "",
+    priority: row.priority,
+  });
+
+  private sorted(rows: TaskRow[]): TaskRow[] {
+    return [...rows].sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  // Tasks on the list for a period, e.g. the week containing a date
+  private async listRows(date: string, period: Period): Promise<TaskRow[]> {
+    const { start, end } = periodRange(date, period);
+    return this.sorted(
+      await this.rows(
+        `AND json_extract(row, '$.period') = ?
+         AND json_extract(row, '$.date') >= ?
+         AND json_extract(row, '$.date') < ?`,
+        [
+          period,
+          midnightIn(start, this.timeZone).toISOString(),
+          midnightIn(end, this.timeZone).toISOString(),
+        ]
+      )
+    );
+  }
+
+  private async taskTags(
+    taskIds: Set<string>
+  ): Promise<{ taskId: string; tagId: string }[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT row FROM sync_row
+          WHERE space = ? AND tbl = 'task_tag' AND row IS NOT NULL`
+      )
+      .bind(this.space)
+      .all<{ row: string }>();
+    return results
+      .map(({ row }) => JSON.parse(row) as { taskId: string; tagId: string })
+      .filter(({ taskId }) => taskIds.has(taskId));
+  }
+
+  private async checkExists(id: string): Promise<TaskRow> {
+    const [row] = await this.rows("AND key = ?", [keyOf(id)]);
+    if (!row) {
+      throw new HttpError(404, `Task with id ${id} does not exist.`);
+    }
+    return row;
+  }
+
+  private async descendants(id: string): Promise<TaskRow[]> {
+    const all = await this.rows();
+    const found: TaskRow[] = [];
+    const visit = (parentId: string) => {
+      for (const row of all) {
+        if (row.parentId === parentId) {
+          found.push(row);
+          visit(row.id);
+        }
+      }
+    };
+    visit(id);
+    return found;
+  }
+
+  private async depth(task: TaskRow): Promise<number> {
+    const all = new Map((await this.rows()).map((row) => [row.id, row]));
+    let depth = 0;
+    for (
+      let parentId = task.parentId;
+      parentId && all.has(parentId);
+      parentId = all.get(parentId)!.parentId
+    ) {
+      depth++;
+    }
+    return depth;
+  }
+
+  async list(date?: string, period?: Period): Promise<ApiTask[]> {
+    if (date) {
+      const periods = period ? [period] : PERIODS;
+      const lists = await Promise.all(
+        periods.map((p) => this.listRows(date, p))
+      );
+      return lists.flat().map(this.toApiTask);
+    }
+    return this.sorted(
+      await (period
+        ? this.rows("AND json_extract(row, '$.period') = ?", [period])
+        : this.rows())
+    ).map(this.toApiTask);
+  }
+
+  async read(id: string): Promise<ApiTask> {
+    return this.toApiTask(await this.checkExists(id));
+  }
+
+  async create(input: z.infer<typeof createTaskRequest>): Promise<ApiTask> {
+    const parent = input.parentId
+      ? await this.checkExists(input.parentId)
+      : null;
+    if (parent && (await this.depth(parent)) >= MAX_SUBTASK_DEPTH) {
+      throw new HttpError(400, "Subtasks can't be nested any deeper.");
+    }
+    const period = parent?.period ?? input.period;
+    const tasks = parent
+      ? await this.rows(
+          `AND json_extract(row, '$.date') = ?
+           AND json_extract(row, '$.period') = ?`,
+          [parent.date, parent.period]
+        )
+      : await this.listRows(input.date!, period);
+
+    const row: TaskRow = {
+      id: generateId(),
+      name: input.name,
+      complete: 0,
+      sortOrder: tasks.length + 1,
+      period,
+      date:
+        parent?.date ??
+        midnightIn(
+          periodRange(input.date!, period).start,
+          this.timeZone
+        ).toISOString(),
+      recurrenceId: null,
+      occurrence: null,
+      parentId: parent?.id ?? null,
+      notes: input.notes,
+      url: input.url,
+      priority: input.priority,
+      postponed: 0,
+      originalDate: null,
+    };
+    await this.write([{ table: "task", key: keyOf(row.id), row }]);
+    return this.toApiTask(row);
+  }
+
+  async update(
+    id: string,
+    changes: z.infer<typeof updateTaskRequest>
+  ): Promise<ApiTask> {
+    const row = { ...(await this.checkExists(id)), ...changes };
+    await this.write([{ table: "task", key: keyOf(id), row }]);
+    return this.toApiTask(row);
+  }
+
+  // Finishing a task finishes everything under it
+  async markComplete(id: string): Promise<ApiTask> {
+    const row = await this.checkExists(id);
+    const rows = [row, ...(await this.descendants(id))].map((task) => ({
+      ...task,
+      complete: 1,
+    }));
+    await this.write(
+      rows.map((task) => ({ table: "task", key: keyOf(task.id), row: task }))
+    );
+    return this.toApiTask(rows[0]);
+  }
+
+  // Unchecking a task unchecks everything it's under
+  async markIncomplete(id: string): Promise<ApiTask> {
+    const row = await this.checkExists(id);
+    const all = new Map((await this.rows()).map((task) => [task.id, task]));
+    const rows: TaskRow[] = [];
+    for (
+      let task: TaskRow | undefined = row;
+      task;
+      task = task.parentId ? all.get(task.parentId) : undefined
+    ) {
+      rows.push({ ...task, complete: 0 });
+    }
+    await this.write(
+      rows.map((task) => ({ table: "task", key: keyOf(task.id), row: task }))
+    );
+    return this.toApiTask(rows[0]);
+  }
+
+  // Deletes the task with its subtasks and tags, and closes the gap it
+  // leaves in its list's order. A repeating task's occurrence is skipped,
+  // or the app would list it again.
+  async delete(id: string) {
+    const task = await this.checkExists(id);
+    const deleted = [task, ...(await this.descendants(id))];
+    const deletedIds = new Set(deleted.map(({ id }) => id));
+
+    const tags = await this.taskTags(deletedIds);
+    const remaining = await this.rows(
+      `AND json_extract(row, '$.date') = ?
+       AND json_extract(row, '$.period') = ?`,
+      [task.date, task.period]
+    );
+
+    await this.write([
+      ...deleted.map(({ id }) => ({
+        table: "task",
+        key: keyOf(id),
+        row: null,
+      })),
+      ...tags.map(({ taskId, tagId }) => ({
+        table: "task_tag",
+        key: keyOf(taskId, tagId),
+        row: null,
+      })),
+      ...(task.recurrenceId && task.occurrence
+        ? [
+            {
+              table: "recurrence_skip",
+              key: keyOf(task.recurrenceId, task.occurrence),
+              row: { recurrenceId: task.recurrenceId, date: task.occurrence },
+            },
+          ]
+        : []),
+      ...this.sorted(remaining.filter(({ id }) => !deletedIds.has(id))).map(
+        (row, index) => ({
+          table: "task",
+          key: keyOf(row.id),
+          row: { ...row, sortOrder: index },
+        })
+      ),
+    ]);
+  }
+
+  async updateOrder(date: string, period: Period, orderedIds: string[]) {
+    const tasks = await this.listRows(date, period);
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const missing = orderedIds.find((id) => !byId.has(id));
+    if (missing) {
+      throw new HttpError(
+        400,
+        `Task with id ${missing} does not exist for the specified day.`
+      );
+    }
+    await this.write(
+      orderedIds.map((id, index) => ({
+        table: "task",
+        key: keyOf(id),
+        row: { ...byId.get(id)!, sortOrder: index },
+      }))
+    );
+    return (await this.listRows(date, period)).map(this.toApiTask);
+  }
+
+  // Copies the previous period's unfinished tasks onto this one, keeping
+  // subtasks under their copied parent where the parent came too
+  async copyIncompletes(date: string, period: Period): Promise<ApiTask[]> {
+    const previous = await this.listRows(previousPeriod(date, period), period);
+    const existing = await this.listRows(date, period);
+    const start = midnightIn(
+      periodRange(date, period).start,
+      this.timeZone
+    ).toISOString();
+
+    const copies = new Map<string, string>();
+    const rows = previous
+      .filter((task) => !task.complete)
+      .map((task, index): TaskRow => {
+        const id = generateId();
+        copies.set(task.id, id);
+        return {
+          ...task,
+          id,
+          sortOrder: existing.length + index + 1,
+          date: start,
+          recurrenceId: null,
+          occurrence: null,
+          parentId: (task.parentId && copies.get(task.parentId)) || null,
+          notes: "",
+          url: "",
+          postponed: 0,
+          originalDate: null,
+        };
+      });
+    const tags = await this.taskTags(new Set(copies.keys()));
+    await this.write([
+      ...rows.map((row) => ({ table: "task", key: keyOf(row.id), row })),
+      ...tags.map(({ taskId, tagId }) => ({
+        table: "task_tag",
+        key: keyOf(copies.get(taskId)!, tagId),
+        row: { taskId: copies.get(taskId)!, tagId },
+      })),
+    ]);
+    return rows.map(this.toApiTask);
+  }
+}
+
+export const listParams = z.object({
+  period: z.enum(PERIODS),
+  date: calendarDate,
+});
+
+// The store for a request's planner. Dates in the request and response are
+// in the timezone given as ?tz= (an IANA name like Europe/London), or UTC.
+export const taskStore = async (
+  request: Request,
+  env: Env
+): Promise<TaskStore> => {
+  const timeZone = new URL(request.url).searchParams.get("tz") ?? "UTC";
+  if (!isTimeZone(timeZone)) {
+    throw new HttpError(400, `Unknown timezone "${timeZone}".`);
+  }
+  return new TaskStore(env.SYNC_DB, await spaceFor(request), timeZone);
+};
@@ -0,0 +1,76 @@
+import { readFileSync } from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+
+// A D1 database for tests, backed by sql.js in memory
+
+class MemoryStatement {
+  constructor(
+    private db: Database,
+    private query: string,
+    private values: unknown[] = []
+  ) {}
+
+  bind(...values: unknown[]) {
+    return new MemoryStatement(this.db, this.query, values);
+  }
+
+  async all<T>() {
+    const statement = this.db.prepare(this.query, this.values as SqlValue[]);
+    const results: T[] = [];
+    while (statement.step()) results.push(statement.getAsObject() as T);
+    statement.free();
+    return { results, success: true, meta: {} };
+  }
+
+  async first<T>() {
+    return (await this.all<T>()).results[0] ?? null;
+  }
+
+  runNow() {
+    this.db.run(this.query, this.values as SqlValue[]);
+    return {
+      results: [],
+      success: true,
+      meta: { changes: this.db.getRowsModified() },
+    };
+  }
+
+  async run() {
+    return this.runNow();
+  }
+}
+
+class MemoryD1 {
+  constructor(private db: Database) {}
+
+  prepare(query: string) {
+    return new MemoryStatement(this.db, query);
+  }
+
+  // Like D1, a batch runs as one transaction
+  async batch(statements: MemoryStatement[]) {
+    this.db.run("BEGIN");
+    try {
+      const results = statements.map((statement) => statement.runNow());
+      this.db.run("COMMIT");
+      return results;
+    } catch (e) {
+      this.db.run("ROLLBACK");
+      throw e;
+    }
+  }
+}
+
+// An empty database with the migrations applied. The sql.js database is
+// returned too, to look at what was written.
+export const openD1 = async () => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(
+    readFileSync(
+      new URL("../../migrations/0001_create_sync_row.sql", import.meta.url),
+      "utf8"
+    )
+  );
+  return { d1: new MemoryD1(db) as unknown as D1Database, db };
+};
@@ -1,6 +1,6 @@
 import { createContext, useEffect, useState } from "react";
 import "./index.css";
-import { DB, Period, runSQLite } from "./lib/DB";
+import { DB, Period, runSQLite, Task } from "./lib/DB";
 import {
   addMonths,
   addWeeks,
@@ -12,7 +12,13 @@ import {
   subYears,
 } from "date-fns";
 import { Button } from "@/components/ui/button";
-import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import {
+  CalendarIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CommandIcon,
+  SearchIcon,
+} from "lucide-react";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
 import {
   DropdownMenuContent,
@@ -21,44 +27,195 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { cn, isSamePeriod } from "./lib/utils";
 import DatesWithTasksList from "@/components/DatesWithTasksList";
+import TagFilter from "@/components/TagFilter";
+import SearchDialog from "@/components/SearchDialog";
+import SettingsMenu from "@/components/SettingsMenu";
+import CommandPalette from "@/components/CommandPalette";
+import ShortcutsDialog from "@/components/ShortcutsDialog";
+import WorkspaceMenu from "@/components/WorkspaceMenu";
+import { toastRolledOver } from "@/lib/toast";
+import { startSync } from "@/lib/sync";
+import { connectTabs, isWriter, whileWriter } from "@/lib/tabs";
+import {
+  currentWorkspace,
+  setCurrentWorkspace,
+  Workspace,
+} from "@/lib/workspaces";
+import {
+  formatKeys,
+  nextPage,
+  previousPage,
+  selectedCard,
+  SHORTCUTS,
+  stepCard,
+} from "@/lib/shortcuts";
+import { toast } from "@/hooks/use-toast";
 
 export const AppContext = createContext<{ db: DB }>({} as any);
 
 function App() {
   const [selectedPeriod, setSelectedPeriod] = useState<Period>("days");
   const [day, setDay] = useState<Date>(new Date());
+  const [workspace, setWorkspace] = useState<Workspace>(currentWorkspace);
   const [db, setDb] = useState<DB>();
+  const [loadError, setLoadError] = useState<Error>();
   const [calOpen, setCalOpen] = useState<boolean>(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [searchOpen, setSearchOpen] = useState<boolean>(false);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState<boolean>(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState<boolean>(false);
+  // A date on the card picked with the keyboard, if any
+  const [pickedDate, setPickedDate] = useState<Date | null>(null);
+  const [createDay, setCreateDay] = useState<Date | null>(null);
+
+  // Each workspace is a database of its own; the one being left is closed
+  useEffect(() => {
+    let opened: DB | undefined;
+    let cancelled = false;
+    setDb(undefined);
+    setLoadError(undefined);
+    runSQLite((db) => {
+      if (cancelled) {
+        db.close();
+      } else {
+        opened = db;
+        setDb(db);
+      }
+    }, workspace.id).catch((e) => {
+      console.error(e);
+      if (!cancelled) {
+        setLoadError(e instanceof Error ? e : new Error(String(e)));
+      }
+    });
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [workspace.id]);
+
+  const switchWorkspace = (next: Workspace) => {
+    setCurrentWorkspace(next.id);
+    setWorkspace(next);
+    setHighlightId(null);
+  };
+
+  useEffect(() => {
+    if (!db) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      // The palette opens from anywhere, text fields included
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && key === "k") {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+        return;
+      }
+
+      // Leave text fields to their own typing and native undo
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable]")) return;
+
+      if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+        // Open dialogs and menus have keys of their own
+        if (target.closest('[role="dialog"], [role="menu"]')) return;
+        const actions: Record<string, () => void> = {
+          "/": () => setSearchOpen(true),
+          "?": () => setShortcutsOpen(true),
+          n: () => setCreateDay(selectedCard(day, selectedPeriod, pickedDate)),
+          j: () => pickCard(stepCard(day, selectedPeriod, pickedDate, 1)),
+          k: () => pickCard(stepCard(day, selectedPeriod, pickedDate, -1)),
+          t: () => {
+            setDay(new Date());
+            setPickedDate(null);
+          },
+          "[": () => setDay(previousPage(day, selectedPeriod)),
+          "]": () => setDay(nextPage(day, selectedPeriod)),
+        };
+        const action = actions[e.key];
+        if (!action) return;
+        e.preventDefault();
+        action();
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || key === "y";
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      const label = isUndo ? db.undo() : db.redo();
+      if (label) {
+        toast({ title: `${isUndo ? "Undid" : "Redid"}: ${label}` });
+      }
+    };
+    const pickCard = (next: { day: Date; card: Date }) => {
+      setDay(next.day);
+      setPickedDate(next.card);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [db, day, selectedPeriod, pickedDate]);
+
+  // Opening the app, or coming back to it, on a new day carries unfinished
+  // tasks over when that's turned on. Only the writer tab does it, and the
+  // others hear about the carried over tasks from it.
+  useEffect(() => {
+    if (!db) return;
+    const rollOver = () => toastRolledOver(db, db.autoRollOver());
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible" && isWriter(db)) rollOver();
+    };
+    const stop = whileWriter(db, rollOver);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [db]);
 
+  // Keeps other tabs open on the planner in step with this one
   useEffect(() => {
-    runSQLite(setDb);
-  }, []);
-
-  const handlePrevious = () => {
-    if (selectedPeriod === "days") {
-      setDay(subWeeks(day, 1));
-    } else if (selectedPeriod === "weeks") {
-      setDay(subMonths(day, 1));
-    } else if (selectedPeriod === "months") {
-      setDay(subYears(day, 1));
-    } else if (selectedPeriod === "year") {
-      setDay(subYears(day, 1));
-    }
+    if (!db) return;
+    return connectTabs(db);
+  }, [db]);
+
+  // Keeps this device in step with others sharing its sync code, if any
+  useEffect(() => {
+    if (!db) return;
+    return startSync(db);
+  }, [db]);
+
+  // The highlight is just a pointer to where a search result landed
+  useEffect(() => {
+    if (!highlightId) return;
+    const timeout = setTimeout(() => setHighlightId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightId]);
+
+  const showTask = (task: Task) => {
+    setTagFilter([]);
+    setSelectedPeriod(task.period);
+    setDay(task.date);
+    setHighlightId(task.id);
   };
 
-  const handleNext = () => {
-    if (selectedPeriod === "days") {
-      setDay(addWeeks(day, 1));
-    } else if (selectedPeriod === "weeks") {
-      setDay(addMonths(day, 1));
-    } else if (selectedPeriod === "months") {
-      setDay(addYears(day, 1));
-    } else if (selectedPeriod === "year") {
-      setDay(addYears(day, 1));
-    }
+  const goTo = (date: Date) => {
+    setDay(date);
+    setPickedDate(date);
   };
 
-  if (!db) {
+  if (loadError) {
+    return (
+      <div className="h-screen w-full flex flex-col justify-center items-center gap-3 bg-zinc-100 p-6 text-center">
+        <h1 className="font-medium">Unable to load your planner</h1>
+        <p className="text-sm text-zinc-600 max-w-md">{loadError.message}</p>
+        <Button size="sm" onClick={() => window.location.reload()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  } else if (!db) {
     return (
       <div className="h-screen w-full flex justify-center items-center bg-zinc-100 animate-pulse">
         <h1 className="animate-pulse">Loading data...</h1>
@@ -67,21 +224,54 @@ function App() {
   } else {
     return (
       <AppContext.Provider value={{ db }}>
-        <DatesWithTasksList day={day} period={selectedPeriod} />
+        <DatesWithTasksList
+          day={day}
+          period={selectedPeriod}
+          tagFilter={tagFilter}
+          highlightId={highlightId}
+          pickedCard={
+            pickedDate && selectedCard(day, selectedPeriod, pickedDate)
+          }
+          createDay={createDay}
+          setCreateDay={setCreateDay}
+        />
+        <SearchDialog
+          open={searchOpen}
+          setOpen={setSearchOpen}
+          onSelect={showTask}
+        />
+        <CommandPalette
+          open={paletteOpen}
+          setOpen={setPaletteOpen}
+          period={selectedPeriod}
+          card={selectedCard(day, selectedPeriod, pickedDate)}
+          onAddTask={setCreateDay}
+          onGoTo={goTo}
+          onSetPeriod={setSelectedPeriod}
+          onPrevious={() => setDay(previousPage(day, selectedPeriod))}
+          onNext={() => setDay(nextPage(day, selectedPeriod))}
+          onSearch={() => setSearchOpen(true)}
+          onShowShortcuts={() => setShortcutsOpen(true)}
+        />
+        <ShortcutsDialog open={shortcutsOpen} setOpen={setShortcutsOpen} />
         <div className="fixed mx-3 bottom-3 w-[calc(100vw-24px)] flex justify-between items-center rounded-xl p-3 bg-zinc-900/10">
-          <div className="bg-white rounded-md p-1">
-            {["days", "weeks", "months", "year"].map((period) => (
-              <button
-                key={period}
-                className={cn(
-                  "inline-flex items-center capitalize rounded-md h-8 px-3 py-2 text-xs font-medium transition",
-                  period === selectedPeriod && "bg-black text-white"
-                )}
-                onClick={() => setSelectedPeriod(period as Period)}
-              >
-                {period}
-              </button>
-            ))}
+          <div className="flex gap-2">
+            <WorkspaceMenu current={workspace} onSwitch={switchWorkspace} />
+            <div className="bg-white rounded-md p-1">
+              {["days", "weeks", "months", "year"].map((period) => (
+                <button
+                  key={period}
+                  className={cn(
+                    "inline-flex items-center capitalize rounded-md h-8 px-3 py-2 text-xs font-medium transition",
+                    period === selectedPeriod && "bg-black text-white"
+                  )}
+                  onClick={() => setSelectedPeriod(period as Period)}
+                >
+                  {period}
+                </button>
+              ))}
+            </div>
+            <TagFilter selected={tagFilter} setSelected={setTagFilter} />
           </div>
           <div className="flex gap-2">
             {!isSamePeriod(day, selectedPeriod) && (
@@ -89,12 +279,31 @@ function App() {
                 <Button
                   size="sm"
                   variant="ghost"
-                  onClick={() => setDay(new Date())}
+                  onClick={() => {
+                    setDay(new Date());
+                    setPickedDate(null);
+                  }}
                 >
                   Today
                 </Button>
               </div>
             )}
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setSearchOpen(true)}
+            >
+              <SearchIcon className="size-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              title={`Commands (${formatKeys(SHORTCUTS.palette)})`}
+              onClick={() => setPaletteOpen(true)}
+            >
+              <CommandIcon className="size-4" />
+            </Button>
+            <SettingsMenu />
             <DropdownMenu open={calOpen} onOpenChange={setCalOpen}>
               <DropdownMenuTrigger asChild>
                 <Button size="sm" variant="secondary">
@@ -107,7 +316,7 @@ function App() {
                   selected={day}
                   onSelect={(val) => {
                     if (val) {
-                      setDay(val);
+                      goTo(val);
                       setCalOpen(false);
                     }
                   }}
@@ -116,11 +325,19 @@ function App() {
               </DropdownMenuContent>
             </DropdownMenu>
             <div className="flex gap-1">
-              <Button size="sm" onClick={handlePrevious} className="w-24">
+              <Button
+                size="sm"
+                onClick={() => setDay(previousPage(day, selectedPeriod))}
+                className="w-24"
+              >
                 <ChevronLeftIcon />
                 {PreviousText(day, selectedPeriod)}
               </Button>
-              <Button size="sm" onClick={handleNext} className="w-24">
+              <Button
+                size="sm"
+                onClick={() => setDay(nextPage(day, selectedPeriod))}
+                className="w-24"
+              >
                 {NextText(day, selectedPeriod)}
                 <ChevronRightIcon />
               </Button>
@@ -0,0 +1,224 @@
+import { AppContext } from "@/App";
+import { ReactNode, useContext, useState } from "react";
+import { isValid, parse } from "date-fns";
+import {
+  CalendarIcon,
+  CheckIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CornerDownRightIcon,
+  KeyboardIcon,
+  SearchIcon,
+  SunIcon,
+  XIcon,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Period, PERIODS } from "@/lib/DB";
+import { formatKeys, Shortcut, SHORTCUTS } from "@/lib/shortcuts";
+import { toastWithUndo } from "@/lib/toast";
+import { describeList } from "@/lib/utils";
+
+const CommandPalette = ({
+  open,
+  setOpen,
+  period,
+  card,
+  onAddTask,
+  onGoTo,
+  onSetPeriod,
+  onPrevious,
+  onNext,
+  onSearch,
+  onShowShortcuts,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  period: Period;
+  // The card that commands on a list act on
+  card: Date;
+  onAddTask: (day: Date) => void;
+  onGoTo: (date: Date) => void;
+  onSetPeriod: (period: Period) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSearch: () => void;
+  onShowShortcuts: () => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [query, setQuery] = useState<string>("");
+  const date = parseDate(query);
+  const list = describeList(card, period);
+
+  const run = (action: () => void) => () => {
+    setOpen(false);
+    setQuery("");
+    action();
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={(open) => {
+        setOpen(open);
+        if (!open) setQuery("");
+      }}
+    >
+      <CommandInput
+        placeholder="Type a command or a date..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {/* Shown whatever else matches, so the list isn't empty with a date */}
+        {date ? (
+          <CommandGroup heading="Go to" forceMount>
+            <CommandItem onSelect={run(() => onGoTo(date))}>
+              <CalendarIcon />
+              {describeList(date, "days")}
+            </CommandItem>
+          </CommandGroup>
+        ) : (
+          <CommandEmpty>No commands found.</CommandEmpty>
+        )}
+        <CommandGroup heading={list}>
+          <Item
+            icon={<CheckIcon />}
+            shortcut={SHORTCUTS.newTask}
+            onSelect={run(() => onAddTask(card))}
+          >
+            Add Task
+          </Item>
+          <Item
+            icon={<CornerDownRightIcon />}
+            onSelect={run(() => {
+              db.copyIncompletes(card, period);
+              toastWithUndo(db, "Copied incomplete tasks", list);
+            })}
+          >
+            Copy Previous Incomplete
+          </Item>
+          <Item
+            icon={<XIcon />}
+            className="!text-red-500"
+            onSelect={run(() => {
+              db.clearPeriod(card, period);
+              toastWithUndo(db, "Tasks cleared", list);
+            })}
+          >
+            Clear All
+          </Item>
+        </CommandGroup>
+        <CommandSeparator />
+        <CommandGroup heading="Navigate">
+          <Item
+            icon={<SunIcon />}
+            shortcut={SHORTCUTS.today}
+            onSelect={run(() => onGoTo(new Date()))}
+          >
+            Today
+          </Item>
+          <Item
+            icon={<ChevronLeftIcon />}
+            shortcut={SHORTCUTS.previous}
+            onSelect={run(onPrevious)}
+          >
+            Previous
+          </Item>
+          <Item
+            icon={<ChevronRightIcon />}
+            shortcut={SHORTCUTS.next}
+            onSelect={run(onNext)}
+          >
+            Next
+          </Item>
+          <Item
+            icon={<SearchIcon />}
+            shortcut={SHORTCUTS.search}
+            onSelect={run(onSearch)}
+          >
+            Search Tasks
+          </Item>
+        </CommandGroup>
+        <CommandSeparator />
+        <CommandGroup heading="View">
+          {PERIODS.map((option) => (
+            <Item
+              key={option}
+              icon={
+                <CheckIcon className={option === period ? "" : "invisible"} />
+              }
+              onSelect={run(() => onSetPeriod(option))}
+            >
+              <span className="capitalize">{option}</span>
+            </Item>
+          ))}
+        </CommandGroup>
+        <CommandSeparator />
+        <CommandGroup heading="Help">
+          <Item
+            icon={<KeyboardIcon />}
+            shortcut={SHORTCUTS.help}
+            onSelect={run(onShowShortcuts)}
+          >
+            Keyboard Shortcuts
+          </Item>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+const Item = ({
+  icon,
+  shortcut,
+  className,
+  onSelect,
+  children,
+}: {
+  icon: ReactNode;
+  shortcut?: Shortcut;
+  className?: string;
+  onSelect: () => void;
+  children: ReactNode;
+}) => (
+  <CommandItem className={className} onSelect={onSelect}>
+    {icon}
+    {children}
+    {shortcut && <CommandShortcut>{formatKeys(shortcut)}</CommandShortcut>}
+  </CommandItem>
+);
+
+// Ways of writing a date that "Go to" understands. Without a year, it's
+// this year.
+const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "MMM d",
+  "MMM d yyyy",
+  "MMM d, yyyy",
+  "MMMM d",
+  "MMMM d yyyy",
+  "MMMM d, yyyy",
+  "M/d",
+  "M/d/yyyy",
+];
+
+const parseDate = (text: string): Date | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  for (const format of DATE_FORMATS) {
+    const date = parse(trimmed, format, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+export default CommandPalette;
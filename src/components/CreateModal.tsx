@@ -1,5 +1,5 @@
 import { AppContext } from "@/App";
-import { FormEvent, useContext, useState } from "react";
+import { ClipboardEvent, FormEvent, useContext, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -11,27 +11,86 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
-import { Period } from "@/lib/DB";
+import { MAX_SUBTASK_DEPTH, Period, Task } from "@/lib/DB";
+import { ChecklistItem, parseChecklist } from "@/lib/markdown";
+import { Frequency } from "@/lib/recurrence";
+import { parseTags } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { PRIORITIES, Priority, PRIORITY_LABELS } from "@/lib/priority";
+import RepeatFields from "./RepeatFields";
+import { CheckIcon, SquareIcon } from "lucide-react";
 
 const CreateModal = ({
   day,
   setDay,
   period,
+  parent,
   refresh,
 }: {
   day: Date | null;
   setDay: (day: Date | null) => void;
   period: Period;
+  // Set when adding a subtask rather than a top level item
+  parent?: Task | null;
   refresh: () => void;
 }) => {
   const { db } = useContext(AppContext);
 
   const [name, setName] = useState<string>("");
+  const [frequency, setFrequency] = useState<Frequency | null>(null);
+  const [every, setEvery] = useState<number>(1);
+  const [priority, setPriority] = useState<Priority | null>(null);
+  // Set when a markdown checklist was pasted in, to add a task per item
+  const [checklist, setChecklist] = useState<ChecklistItem[] | null>(null);
+
+  const onPaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const items = parseChecklist(e.clipboardData.getData("text/plain"));
+    if (!items) return;
+    e.preventDefault();
+    setChecklist(items);
+  };
+
+  // Nested items become subtasks as far as nesting is allowed; under an
+  // existing task they're all added directly below it
+  const createChecklist = (day: Date, items: ChecklistItem[]) => {
+    const maxDepth = parent ? 0 : MAX_SUBTASK_DEPTH;
+    // The most recent task at each depth, to nest the next item under
+    const path: Task[] = [];
+    for (const item of items) {
+      const { name: taskName, tags } = parseTags(item.name);
+      if (!taskName) continue;
+      const tagIds = db.ensureTags(tags).map(({ id }) => id);
+      const depth = Math.min(item.depth, path.length, maxDepth);
+      const under = depth > 0 ? path[depth - 1] : parent;
+      const task = under
+        ? db.createSubtask(taskName, under.id, tagIds, priority)
+        : db.create(taskName, day, period, tagIds, priority);
+      if (!task) continue;
+      if (item.complete) db.markComplete(task.id);
+      path.splice(depth, path.length, task);
+    }
+  };
+
   const onSubmit = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!day) return;
-    if (!name) {
+    if (checklist) {
+      db.transaction(parent ? "Add subtasks" : "Add tasks", () =>
+        createChecklist(day, checklist)
+      );
+      reset();
+      return;
+    }
+    const { name: taskName, tags } = parseTags(name);
+    if (!taskName) {
       toast({
         variant: "destructive",
         title: "Name is required",
@@ -39,41 +98,152 @@ const CreateModal = ({
       });
       return;
     }
-    db.create(name, day, period);
+    db.transaction(parent ? "Add subtask" : "Add task", () => {
+      const tagIds = db.ensureTags(tags).map(({ id }) => id);
+      if (parent) {
+        db.createSubtask(taskName, parent.id, tagIds, priority);
+      } else if (frequency) {
+        db.createRecurring(
+          taskName,
+          day,
+          period,
+          frequency,
+          every,
+          tagIds,
+          priority
+        );
+      } else {
+        db.create(taskName, day, period, tagIds, priority);
+      }
+    });
+    reset();
+  };
+
+  const reset = () => {
     refresh();
     setDay(null);
     setName("");
+    setFrequency(null);
+    setEvery(1);
+    setPriority(null);
+    setChecklist(null);
   };
 
   if (!day) return null;
   return (
-    <Dialog open={!!day} onOpenChange={() => setDay(null)}>
+    <Dialog
+      open={!!day}
+      onOpenChange={() => {
+        setDay(null);
+        setChecklist(null);
+      }}
+    >
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle>New Item</DialogTitle>
+          <DialogTitle>{parent ? "New Subtask" : "New Item"}</DialogTitle>
           <DialogDescription>
-            Add an item to your list of things to do today.
+            {parent
+              ? `Break "${parent.name}" down into smaller steps.`
+              : "Add an item to your list of things to do today."}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={onSubmit} autoComplete="off">
-          <div>
-            <Label htmlFor="task_name" className="text-right">
-              Name
-            </Label>
-            <Input
-              id="task_name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="col-span-3"
-              autoComplete="off"
-              data-1p-ignore
-              data-lpignore="true"
-              data-form-type="other"
-              data-bwignore
-            />
+          {checklist ? (
+            <div>
+              <div className="flex items-center justify-between">
+                <Label>
+                  {checklist.length} {checklist.length === 1 ? "item" : "items"}{" "}
+                  from the pasted checklist
+                </Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setChecklist(null)}
+                >
+                  Clear
+                </Button>
+              </div>
+              <ul className="mt-1 max-h-60 overflow-y-auto rounded-md border p-2 text-sm">
+                {checklist.map((item, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center gap-2"
+                    style={{ paddingLeft: `${item.depth * 1.25}rem` }}
+                  >
+                    {item.complete ? (
+                      <CheckIcon className="size-4 shrink-0 text-indigo-500" />
+                    ) : (
+                      <SquareIcon className="size-4 shrink-0 text-zinc-400" />
+                    )}
+                    <span className={cn(item.complete && "line-through")}>
+                      {item.name}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="task_name" className="text-right">
+                Name
+              </Label>
+              <Input
+                id="task_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onPaste={onPaste}
+                placeholder="Use #tag to add tags, or paste a checklist"
+                className="col-span-3"
+                autoComplete="off"
+                data-1p-ignore
+                data-lpignore="true"
+                data-form-type="other"
+                data-bwignore
+              />
+            </div>
+          )}
+          <div className="mt-4">
+            <Label htmlFor="task_priority">Priority</Label>
+            <Select
+              value={priority ? String(priority) : "none"}
+              onValueChange={(val) =>
+                setPriority(val === "none" ? null : (Number(val) as Priority))
+              }
+            >
+              <SelectTrigger id="task_priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No priority</SelectItem>
+                {PRIORITIES.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {PRIORITY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          {!parent && !checklist && (
+            <div className="mt-4">
+              <RepeatFields
+                day={day}
+                period={period}
+                frequency={frequency}
+                setFrequency={setFrequency}
+                every={every}
+                setEvery={setEvery}
+              />
+            </div>
+          )}
           <DialogFooter className="mt-4">
-            <Button type="submit">Create</Button>
+            <Button type="submit">
+              {checklist
+                ? `Create ${checklist.length} ${
+                    checklist.length === 1 ? "Item" : "Items"
+                  }`
+                : "Create"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
@@ -0,0 +1,126 @@
+import { AppContext } from "@/App";
+import { useContext, useState } from "react";
+import {
+  addDays,
+  endOfQuarter,
+  format,
+  isValid,
+  parseISO,
+  startOfQuarter,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { Period, PERIODS } from "@/lib/DB";
+import { exportCSV } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+
+const CsvExportDialog = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  // This quarter, since that's what reviews tend to cover
+  const [from, setFrom] = useState<string>(
+    format(startOfQuarter(new Date()), "yyyy-MM-dd")
+  );
+  const [to, setTo] = useState<string>(
+    format(endOfQuarter(new Date()), "yyyy-MM-dd")
+  );
+  const [periods, setPeriods] = useState<Period[]>(PERIODS);
+
+  const onExport = () => {
+    const start = parseISO(from);
+    const end = parseISO(to);
+    if (!isValid(start) || !isValid(end) || end < start) {
+      toast({
+        variant: "destructive",
+        title: "Invalid date range",
+        description: "Pick a start date on or before the end date",
+      });
+      return;
+    }
+    downloadFile(
+      `planner-${from}-to-${to}.csv`,
+      // The end date is inclusive
+      exportCSV(db, start, addDays(end, 1), periods),
+      "text/csv"
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>
+            Download tasks as a spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Label htmlFor="csv_from">From</Label>
+            <Input
+              id="csv_from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="csv_to">To</Label>
+            <Input
+              id="csv_to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex gap-4">
+          {PERIODS.map((period) => (
+            <div key={period} className="flex items-center gap-2">
+              <Checkbox
+                id={`csv_${period}`}
+                checked={periods.includes(period)}
+                onCheckedChange={(checked) =>
+                  setPeriods(
+                    checked
+                      ? PERIODS.filter(
+                          (p) => p === period || periods.includes(p)
+                        )
+                      : periods.filter((p) => p !== period)
+                  )
+                }
+              />
+              <Label htmlFor={`csv_${period}`} className="capitalize">
+                {period}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button disabled={periods.length === 0} onClick={onExport}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,196 @@
+import { AppContext } from "@/App";
+import { ChangeEvent, useContext, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  ColumnMapping,
+  guessMapping,
+  IMPORT_FIELDS,
+  importCSV,
+  parseCSV,
+} from "@/lib/csv";
+import { toastWithUndo } from "@/lib/toast";
+
+const FIELD_LABELS: Record<keyof ColumnMapping, string> = {
+  name: "Name",
+  date: "Date",
+  period: "Period",
+  complete: "Complete",
+  priority: "Priority",
+  tags: "Tags",
+  notes: "Notes",
+  url: "Link",
+};
+
+const CsvImportDialog = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const columnName = (index: number) =>
+    hasHeader && rows[0]?.[index]
+      ? rows[0][index]
+      : `Column ${index + 1}${
+          rows[hasHeader ? 1 : 0]?.[index]
+            ? ` (e.g. "${rows[hasHeader ? 1 : 0][index].slice(0, 20)}")`
+            : ""
+        }`;
+
+  const reset = () => {
+    setRows([]);
+    setHasHeader(true);
+    setMapping(null);
+  };
+
+  const onFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+    const parsed = parseCSV(await file.text());
+    setRows(parsed);
+    setMapping(guessMapping(parsed[0] ?? []));
+  };
+
+  const onImport = () => {
+    if (!mapping) return;
+    const { imported, skipped } = importCSV(db, rows, mapping, hasHeader);
+    toastWithUndo(
+      db,
+      `Imported ${imported} ${imported === 1 ? "task" : "tasks"}`,
+      skipped.length > 0
+        ? `Skipped ${skipped
+            .slice(0, 3)
+            .map(({ line, reason }) => `line ${line} (${reason})`)
+            .join(", ")}${skipped.length > 3 ? ", ..." : ""}`
+        : undefined
+    );
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(open) => {
+        if (!open) reset();
+        setOpen(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>
+            Create tasks from a spreadsheet, one per row.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="csv_file">File</Label>
+            <Input
+              id="csv_file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={onFile}
+            />
+          </div>
+          {mapping && (
+            <>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="csv_header"
+                  checked={hasHeader}
+                  onCheckedChange={(checked) => setHasHeader(!!checked)}
+                />
+                <Label htmlFor="csv_header">First row is a header</Label>
+              </div>
+              <div className="grid grid-cols-[auto_1fr] items-center gap-2 max-h-72 overflow-y-auto">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field} className="contents">
+                    <Label htmlFor={`csv_field_${field}`}>
+                      {FIELD_LABELS[field]}
+                    </Label>
+                    <Select
+                      value={
+                        mapping[field] === null ? "none" : `${mapping[field]}`
+                      }
+                      onValueChange={(val) =>
+                        setMapping({
+                          ...mapping,
+                          [field]: val === "none" ? null : Number(val),
+                        })
+                      }
+                    >
+                      <SelectTrigger id={`csv_field_${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">
+                          {field === "date"
+                            ? "Not imported (use today)"
+                            : field === "period"
+                            ? "Not imported (use days)"
+                            : "Not imported"}
+                        </SelectItem>
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <SelectItem key={index} value={`${index}`}>
+                            {columnName(index)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!mapping || mapping.name === null}
+            onClick={() => {
+              if (rows.length <= (hasHeader ? 1 : 0)) {
+                toast({
+                  variant: "destructive",
+                  title: "Nothing to import",
+                  description: "The file has no rows",
+                });
+                return;
+              }
+              onImport();
+            }}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
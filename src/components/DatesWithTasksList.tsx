@@ -1,46 +1,83 @@
 import { AppContext } from "@/App";
 import { DB, Period, Task } from "@/lib/DB";
-import { cn, isSamePeriod, startOfPeriod } from "@/lib/utils";
+import { cn, isSamePeriod, startOfPeriod, visibleDates } from "@/lib/utils";
+import { addDays, endOfMonth, format, isSameMonth } from "date-fns";
+import { HTMLAttributes, useContext, useEffect, useRef, useState } from "react";
 import {
-  addDays,
-  addMonths,
-  addWeeks,
-  differenceInCalendarWeeks,
-  endOfMonth,
-  format,
-  isSameMonth,
-  startOfMonth,
-  startOfWeek,
-  startOfYear,
-} from "date-fns";
-import { useContext, useEffect, useRef, useState } from "react";
+  closestCenter,
+  CollisionDetection,
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  useDndContext,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
 import { Button } from "@/components/ui/button";
 import {
+  ArrowDownWideNarrowIcon,
   CheckIcon,
+  ClipboardCopyIcon,
   CornerDownRightIcon,
   EllipsisVerticalIcon,
+  ForwardIcon,
   XIcon,
 } from "lucide-react";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
 import {
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import CreateModal from "./CreateModal";
-import TaskList from "./TaskList";
+import TaskList, { DropTarget } from "./TaskList";
+import { toastWithUndo } from "@/lib/toast";
+import { toast } from "@/hooks/use-toast";
+import { SortMode, sortByPriority } from "@/lib/priority";
+import { toMarkdown } from "@/lib/markdown";
 
-const DatesWithTasksList = ({ day, period }: { day: Date; period: Period }) => {
+const DatesWithTasksList = ({
+  day,
+  period,
+  tagFilter,
+  highlightId,
+  pickedCard,
+  createDay,
+  setCreateDay,
+}: {
+  day: Date;
+  period: Period;
+  tagFilter: string[];
+  highlightId: string | null;
+  // The card picked with the keyboard, outlined so it can be seen
+  pickedCard: Date | null;
+  createDay: Date | null;
+  setCreateDay: (day: Date | null) => void;
+}) => {
   const { db } = useContext(AppContext);
 
   const todayRef = useRef<HTMLDivElement>(null);
 
-  const [createDay, setCreateDay] = useState<Date | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const sensors = useSensors(
+    // A little slack so a click on a task opens it instead of starting a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
 
   const [datesWithTasks, setDatesWithTasks] = useState<DateWithTasks[]>(
-    BuildDatesWithTasks(day, period, db)
+    BuildDatesWithTasks(day, period, tagFilter, db)
   );
-  const refresh = () => setDatesWithTasks(BuildDatesWithTasks(day, period, db));
+  const refresh = () =>
+    setDatesWithTasks(BuildDatesWithTasks(day, period, tagFilter, db));
   useEffect(() => {
     refresh();
     setTimeout(() => {
@@ -58,6 +95,29 @@ const DatesWithTasksList = ({ day, period }: { day: Date; period: Period }) => {
     }, 50);
   }, [day, period]);
 
+  // Picks up changes made outside this list, e.g. undo/redo, and a change of
+  // tag filter
+  useEffect(() => {
+    const update = () =>
+      setDatesWithTasks(BuildDatesWithTasks(day, period, tagFilter, db));
+    update();
+    return db.subscribe(update);
+  }, [db, day, period, tagFilter]);
+
+  // Keeps the picked card in view as it moves. By its time, since the Date
+  // is new on every render.
+  const pickedTime = pickedCard?.getTime();
+  useEffect(() => {
+    if (pickedTime === undefined) return;
+    document
+      .getElementById(`${new Date(pickedTime).toISOString()}-${period}`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [pickedTime, period]);
+
+  const activeTask = datesWithTasks
+    .flatMap(({ tasks }) => tasks)
+    .find(({ id }) => id === activeId);
+
   return (
     <>
       <CreateModal
@@ -66,148 +126,328 @@ const DatesWithTasksList = ({ day, period }: { day: Date; period: Period }) => {
         refresh={refresh}
         period={period}
       />
-      <div className="p-3">
-        <div className="space-y-3">
-          {datesWithTasks.map((dateWithTasks) => {
-            const samePeriod = isSamePeriod(dateWithTasks.date, period);
-            return (
-              <div
-                key={`${dateWithTasks.date.toISOString()}-${period}`}
-                className="rounded-xl bg-white p-4"
-                ref={samePeriod ? todayRef : undefined}
-                id={`${dateWithTasks.date.toISOString()}-${period}`}
-              >
-                <div className="flex min-h-64">
-                  <div
-                    className={cn(
-                      "p-3 w-44 rounded-xl flex flex-col justify-between",
-                      samePeriod ? "bg-indigo-100" : "bg-zinc-100"
-                    )}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={collisionDetection}
+        onDragStart={({ active }) => setActiveId(String(active.id))}
+        onDragEnd={() => setActiveId(null)}
+        onDragCancel={() => setActiveId(null)}
+      >
+        <div className="p-3">
+          <div className="space-y-3">
+            {datesWithTasks.map((dateWithTasks) => {
+              const samePeriod = isSamePeriod(dateWithTasks.date, period);
+              return (
+                <div
+                  key={`${dateWithTasks.date.toISOString()}-${period}`}
+                  className={cn(
+                    "rounded-xl bg-white p-4",
+                    pickedTime === dateWithTasks.date.getTime() &&
+                      "ring-2 ring-zinc-400"
+                  )}
+                  ref={samePeriod ? todayRef : undefined}
+                  id={`${dateWithTasks.date.toISOString()}-${period}`}
+                >
+                  <DroppableCard
+                    cardId={`${dateWithTasks.date.toISOString()}-${period}`}
+                    date={dateWithTasks.date}
+                    className="flex min-h-64"
                   >
-                    <div className="flex justify-between">
-                      <div>
-                        <h6>{DateTitle(dateWithTasks.date, period)}</h6>
-                        {period === "days" && (
-                          <h6
-                            className={cn(
-                              "-mt-2",
-                              samePeriod ? "text-indigo-700" : "text-zinc-400"
-                            )}
-                          >
-                            {format(dateWithTasks.date, "EEE")}
-                          </h6>
-                        )}
-                      </div>
-                      <div className="mt-1">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger>
-                            <EllipsisVerticalIcon className="size-5" />
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent>
-                            <DropdownMenuItem
-                              onClick={() => setCreateDay(dateWithTasks.date)}
-                            >
-                              <CheckIcon />
-                              Add Task
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => {
-                                db.copyIncompletes(dateWithTasks.date, period);
-                                refresh();
-                              }}
-                            >
-                              <CornerDownRightIcon />
-                              Copy Previous Incomplete
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              className="!text-red-500"
-                              onClick={() => {
-                                db.clearPeriod(dateWithTasks.date, period);
-                                refresh();
-                              }}
+                    <div
+                      className={cn(
+                        "p-3 w-44 rounded-xl flex flex-col justify-between",
+                        samePeriod ? "bg-indigo-100" : "bg-zinc-100"
+                      )}
+                    >
+                      <div className="flex justify-between">
+                        <div>
+                          <h6>{DateTitle(dateWithTasks.date, period)}</h6>
+                          {period === "days" && (
+                            <h6
+                              className={cn(
+                                "-mt-2",
+                                samePeriod ? "text-indigo-700" : "text-zinc-400"
+                              )}
                             >
-                              <XIcon />
-                              Clear All
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                              {format(dateWithTasks.date, "EEE")}
+                            </h6>
+                          )}
+                        </div>
+                        <div className="mt-1">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger>
+                              <EllipsisVerticalIcon className="size-5" />
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent>
+                              <DropdownMenuItem
+                                onClick={() => setCreateDay(dateWithTasks.date)}
+                              >
+                                <CheckIcon />
+                                Add Task
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  db.copyIncompletes(
+                                    dateWithTasks.date,
+                                    period
+                                  );
+                                  refresh();
+                                }}
+                              >
+                                <CornerDownRightIcon />
+                                Copy Previous Incomplete
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  const moved = db.rollOver(
+                                    dateWithTasks.date,
+                                    period
+                                  );
+                                  refresh();
+                                  if (moved.length === 0) {
+                                    toast({
+                                      title: "Nothing to roll over",
+                                      description:
+                                        "Everything from last time is done.",
+                                    });
+                                  } else {
+                                    toastWithUndo(
+                                      db,
+                                      `Rolled over ${moved.length} ${
+                                        moved.length === 1 ? "task" : "tasks"
+                                      }`,
+                                      moved.map(({ name }) => name).join(", ")
+                                    );
+                                  }
+                                }}
+                              >
+                                <ForwardIcon />
+                                Roll Over Previous Incomplete
+                              </DropdownMenuItem>
+                              <DropdownMenuCheckboxItem
+                                checked={dateWithTasks.sortMode === "priority"}
+                                onCheckedChange={(checked) => {
+                                  db.setSortMode(
+                                    dateWithTasks.date,
+                                    period,
+                                    checked ? "priority" : "manual"
+                                  );
+                                  refresh();
+                                }}
+                              >
+                                <ArrowDownWideNarrowIcon />
+                                Sort by Priority
+                              </DropdownMenuCheckboxItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  copyAsMarkdown([dateWithTasks], period)
+                                }
+                              >
+                                <ClipboardCopyIcon />
+                                Copy as Markdown
+                              </DropdownMenuItem>
+                              {RANGE_LABELS[period] && (
+                                <DropdownMenuItem
+                                  onClick={() =>
+                                    copyAsMarkdown(
+                                      datesWithTasks.filter(
+                                        ({ tasks }) => tasks.length > 0
+                                      ),
+                                      period
+                                    )
+                                  }
+                                >
+                                  <ClipboardCopyIcon />
+                                  Copy {RANGE_LABELS[period]} as Markdown
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="!text-red-500"
+                                onClick={() => {
+                                  db.clearPeriod(dateWithTasks.date, period);
+                                  refresh();
+                                  toastWithUndo(
+                                    db,
+                                    "Tasks cleared",
+                                    DateTitle(dateWithTasks.date, period)
+                                  );
+                                }}
+                              >
+                                <XIcon />
+                                Clear All
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </div>
+                      <div>
+                        <p
+                          className={cn(
+                            "text-sm",
+                            samePeriod ? "text-indigo-700" : "text-zinc-700"
+                          )}
+                        >
+                          {dateWithTasks.tasks.reduce(
+                            (total, task) => total + (task.complete ? 1 : 0),
+                            0
+                          )}{" "}
+                          / {dateWithTasks.tasks.length}
+                        </p>
                       </div>
                     </div>
-                    <div>
-                      <p
-                        className={cn(
-                          "text-sm",
-                          samePeriod ? "text-indigo-700" : "text-zinc-700"
-                        )}
-                      >
-                        {dateWithTasks.tasks.reduce(
-                          (total, task) => total + (task.complete ? 1 : 0),
-                          0
-                        )}{" "}
-                        / {dateWithTasks.tasks.length}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="pt-3 px-3 space-y-8 flex flex-col justify-between">
-                    <div>
-                      <TaskList
-                        tasks={dateWithTasks.tasks}
-                        refresh={refresh}
-                        period={period}
-                      />
-                    </div>
-                    <div>
-                      <Button
-                        size="sm"
-                        variant="secondary"
-                        onClick={() => setCreateDay(dateWithTasks.date)}
-                      >
-                        <CheckIcon />
-                        Add Task
-                      </Button>
+                    <div className="pt-3 px-3 space-y-8 flex flex-col justify-between">
+                      <div>
+                        <TaskList
+                          tasks={dateWithTasks.tasks}
+                          date={dateWithTasks.date}
+                          refresh={refresh}
+                          period={period}
+                          sortable={
+                            tagFilter.length === 0 &&
+                            dateWithTasks.sortMode === "manual"
+                          }
+                          highlightId={highlightId}
+                        />
+                      </div>
+                      <div>
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => setCreateDay(dateWithTasks.date)}
+                        >
+                          <CheckIcon />
+                          Add Task
+                        </Button>
+                      </div>
                     </div>
-                  </div>
+                  </DroppableCard>
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
+          </div>
+          <div className="h-[calc(100vh-310px)]" />
         </div>
-        <div className="h-[calc(100vh-310px)]" />
-      </div>
+        <DragOverlay dropAnimation={null}>
+          {activeTask && (
+            <div className="w-fit rounded-md bg-white px-2 py-1 text-sm shadow-md">
+              {activeTask.name}
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
     </>
   );
 };
 
 export default DatesWithTasksList;
 
-type DateWithTasks = { date: Date; tasks: Task[] };
+// The card under the pointer decides where a task lands, then the closest row
+// on that card. Empty cards are a target in their own right.
+const collisionDetection: CollisionDetection = (args) => {
+  const isCard = ({ id }: { id: string | number }) =>
+    String(id).startsWith("card-");
+  const rows = args.droppableContainers.filter((c) => !isCard(c));
+  const [card] = pointerWithin({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(isCard),
+  });
+  if (!card) {
+    // e.g. the keyboard sensor, which has no pointer
+    return closestCenter({ ...args, droppableContainers: rows });
+  }
+
+  const cardId = String(card.id).slice("card-".length);
+  const rowsOnCard = rows.filter(
+    ({ data }) => (data.current as DropTarget | undefined)?.cardId === cardId
+  );
+  return rowsOnCard.length === 0
+    ? [card]
+    : closestCenter({ ...args, droppableContainers: rowsOnCard });
+};
+
+const DroppableCard = ({
+  cardId,
+  date,
+  className,
+  ...props
+}: DropTarget & HTMLAttributes<HTMLDivElement>) => {
+  const data: DropTarget = { cardId, date };
+  const { setNodeRef } = useDroppable({ id: `card-${cardId}`, data });
+  const { active, over } = useDndContext();
+  const isTarget =
+    (active?.data.current as DropTarget | undefined)?.cardId !== cardId &&
+    (over?.data.current as DropTarget | undefined)?.cardId === cardId;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        className,
+        "rounded-xl transition-shadow",
+        isTarget && "ring-2 ring-indigo-200"
+      )}
+      {...props}
+    />
+  );
+};
+
+// What the cards on screen add up to, for copying them all at once. The year
+// view only has the one card.
+const RANGE_LABELS: Record<Period, string | null> = {
+  days: "Week",
+  weeks: "Month",
+  months: "Year",
+  year: null,
+};
+
+const copyAsMarkdown = async (
+  datesWithTasks: DateWithTasks[],
+  period: Period
+) => {
+  const markdown = toMarkdown(
+    datesWithTasks.map(({ date, tasks }) => ({
+      title: DateTitle(date, period),
+      tasks,
+    }))
+  );
+  try {
+    await navigator.clipboard.writeText(markdown);
+    toast({ title: "Copied as Markdown" });
+  } catch (e) {
+    toast({
+      variant: "destructive",
+      title: "Couldn't copy",
+      description: String(e),
+    });
+  }
+};
+
+type DateWithTasks = { date: Date; tasks: Task[]; sortMode: SortMode };
 
 const BuildDatesWithTasks = (
   day: Date,
   period: Period,
+  tagFilter: string[],
   db: DB
 ): DateWithTasks[] => {
-  let dates: Date[] = [];
+  const dates = visibleDates(day, period);
 
-  if (period === "days") {
-    const startOfTheWeek = startOfWeek(day, { weekStartsOn: 0 });
-    dates = Array.from({ length: 7 }, (_, i) => addDays(startOfTheWeek, i));
-  } else if (period === "weeks") {
-    const startMonth = startOfMonth(day);
-    const endMonth = endOfMonth(day);
-    const numWeeks = differenceInCalendarWeeks(endMonth, startMonth) + 1;
-    dates = Array.from({ length: numWeeks }, (_, i) => addWeeks(startMonth, i));
-  } else if (period === "months") {
-    const startOfYearDate = startOfYear(day);
-    dates = Array.from({ length: 12 }, (_, i) => addMonths(startOfYearDate, i));
-  } else if (period === "year") {
-    dates = [startOfYear(day)];
-  }
+  // A task shows when it has any of the selected tags
+  const matches = (task: Task) =>
+    tagFilter.length === 0 ||
+    task.tagIds.some((tagId) => tagFilter.includes(tagId));
 
-  return dates.map((date) => ({
-    date,
-    tasks: db.list(date, period),
-  }));
+  return dates.map((date) => {
+    const tasks = db.listScheduled(date, period).filter(matches);
+    const sortMode = db.getSortMode(date, period);
+    return {
+      date,
+      tasks: sortMode === "priority" ? sortByPriority(tasks) : tasks,
+      sortMode,
+    };
+  });
 };
 
 const DateTitle = (date: Date, period: Period): string => {
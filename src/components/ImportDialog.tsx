@@ -0,0 +1,168 @@
+import { AppContext } from "@/App";
+import { ChangeEvent, useContext, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ImportError,
+  importJSON,
+  parseJSONExport,
+  PlannerExport,
+} from "@/lib/export";
+import { toastWithUndo } from "@/lib/toast";
+
+type Strategy = "keep" | "overwrite" | "replace";
+
+const ImportDialog = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [data, setData] = useState<PlannerExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<Strategy>("keep");
+
+  const tasks = data?.tables.task ?? [];
+  const conflicts = data ? db.existingTaskIds(tasks.map(({ id }) => id)) : [];
+
+  const reset = () => {
+    setData(null);
+    setError(null);
+    setStrategy("keep");
+  };
+
+  const onFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+    try {
+      setData(parseJSONExport(await file.text()));
+    } catch (e) {
+      setError(e instanceof ImportError ? e.message : String(e));
+    }
+  };
+
+  const onImport = () => {
+    if (!data) return;
+    let imported: number;
+    try {
+      const written =
+        strategy === "replace"
+          ? importJSON(db, data, "replace")
+          : importJSON(db, data, "merge", strategy);
+      // Tasks kept as they were don't count
+      imported = written.task ?? 0;
+    } catch (e) {
+      setError(e instanceof ImportError ? e.message : String(e));
+      return;
+    }
+    toastWithUndo(
+      db,
+      "Import complete",
+      `${imported} ${imported === 1 ? "task" : "tasks"} imported`
+    );
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(open) => {
+        if (!open) reset();
+        setOpen(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import JSON</DialogTitle>
+          <DialogDescription>
+            Load tasks from a file made with Export JSON.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="import_file">File</Label>
+            <Input
+              id="import_file"
+              type="file"
+              accept=".json,application/json"
+              onChange={onFile}
+            />
+          </div>
+          {error && (
+            <p className="text-sm text-red-500 whitespace-pre-line">{error}</p>
+          )}
+          {data && (
+            <>
+              <p className="text-sm text-zinc-600">
+                {tasks.length} {tasks.length === 1 ? "task" : "tasks"}, exported{" "}
+                {format(new Date(data.exportedAt), "MMM d, yyyy")}.
+                {conflicts.length > 0 &&
+                  ` ${conflicts.length} of them ${
+                    conflicts.length === 1 ? "is" : "are"
+                  } already in your planner: ${tasks
+                    .filter(({ id }) => conflicts.includes(id))
+                    .slice(0, 5)
+                    .map(({ name }) => `"${name}"`)
+                    .join(", ")}${conflicts.length > 5 ? ", ..." : ""}`}
+              </p>
+              <div>
+                <Label htmlFor="import_strategy">How to import</Label>
+                <Select
+                  value={strategy}
+                  onValueChange={(val) => setStrategy(val as Strategy)}
+                >
+                  <SelectTrigger id="import_strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">
+                      Merge, keeping my version of existing tasks
+                    </SelectItem>
+                    <SelectItem value="overwrite">
+                      Merge, using the imported version of existing tasks
+                    </SelectItem>
+                    <SelectItem value="replace">
+                      Replace everything in my planner
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant={strategy === "replace" ? "destructive" : "default"}
+            disabled={!data}
+            onClick={onImport}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
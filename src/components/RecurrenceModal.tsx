@@ -0,0 +1,129 @@
+import { AppContext } from "@/App";
+import { FormEvent, useContext, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { Task } from "@/lib/DB";
+import { Frequency } from "@/lib/recurrence";
+import RepeatFields from "./RepeatFields";
+
+const RecurrenceModal = ({
+  task,
+  setTask,
+  refresh,
+}: {
+  task: Task | null;
+  setTask: (task: Task | null) => void;
+  refresh: () => void;
+}) => {
+  const { db } = useContext(AppContext);
+
+  const [name, setName] = useState<string>("");
+  const [frequency, setFrequency] = useState<Frequency | null>(null);
+  const [every, setEvery] = useState<number>(1);
+  const [scope, setScope] = useState<"this" | "future">("this");
+
+  useEffect(() => {
+    const recurrence = task?.recurrenceId
+      ? db.readRecurrence(task.recurrenceId)
+      : null;
+    setName(task?.name ?? "");
+    setFrequency(recurrence?.frequency ?? null);
+    setEvery(recurrence?.interval ?? 1);
+    setScope("this");
+  }, [db, task]);
+
+  const onSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!task || !frequency) return;
+    if (!name) {
+      toast({
+        variant: "destructive",
+        title: "Name is required",
+        description: "Name is required to save a repeating item",
+      });
+      return;
+    }
+    db.updateRecurrence(task.id, { name, frequency, interval: every }, scope);
+    refresh();
+    setTask(null);
+  };
+
+  if (!task) return null;
+  return (
+    <Dialog open={!!task} onOpenChange={() => setTask(null)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Repeating Item</DialogTitle>
+          <DialogDescription>
+            Change just this occurrence, or this one and every one after it.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={onSubmit} autoComplete="off" className="space-y-4">
+          <div>
+            <Label htmlFor="recurrence_name">Name</Label>
+            <Input
+              id="recurrence_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="off"
+              data-1p-ignore
+              data-lpignore="true"
+              data-form-type="other"
+              data-bwignore
+            />
+          </div>
+          <div>
+            <Label htmlFor="recurrence_scope">Apply to</Label>
+            <Select
+              value={scope}
+              onValueChange={(val) => setScope(val as "this" | "future")}
+            >
+              <SelectTrigger id="recurrence_scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="this">This occurrence</SelectItem>
+                <SelectItem value="future">
+                  This and all future occurrences
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {scope === "future" && (
+            <RepeatFields
+              day={task.occurrence ?? task.date}
+              period={task.period}
+              frequency={frequency}
+              setFrequency={setFrequency}
+              every={every}
+              setEvery={setEvery}
+              allowNone={false}
+            />
+          )}
+          <DialogFooter>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurrenceModal;
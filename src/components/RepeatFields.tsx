@@ -0,0 +1,82 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Period } from "@/lib/DB";
+import {
+  describeRecurrence,
+  FREQUENCIES_BY_PERIOD,
+  Frequency,
+  hasInterval,
+} from "@/lib/recurrence";
+import { startOfPeriod } from "@/lib/utils";
+
+const RepeatFields = ({
+  day,
+  period,
+  frequency,
+  setFrequency,
+  every,
+  setEvery,
+  allowNone = true,
+}: {
+  day: Date;
+  period: Period;
+  frequency: Frequency | null;
+  setFrequency: (frequency: Frequency | null) => void;
+  every: number;
+  setEvery: (every: number) => void;
+  allowNone?: boolean;
+}) => {
+  const startDate = startOfPeriod(day, period);
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex-1">
+        <Label htmlFor="task_repeat">Repeat</Label>
+        <Select
+          value={frequency ?? "none"}
+          onValueChange={(val) =>
+            setFrequency(val === "none" ? null : (val as Frequency))
+          }
+        >
+          <SelectTrigger id="task_repeat">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowNone && <SelectItem value="none">Does not repeat</SelectItem>}
+            {FREQUENCIES_BY_PERIOD[period].map((option) => (
+              <SelectItem key={option} value={option}>
+                {describeRecurrence({
+                  period,
+                  frequency: option,
+                  interval: 1,
+                  startDate,
+                })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {frequency && hasInterval(frequency) && (
+        <div className="w-24">
+          <Label htmlFor="task_interval">Every</Label>
+          <Input
+            id="task_interval"
+            type="number"
+            min={1}
+            value={every}
+            onChange={(e) => setEvery(Math.max(1, Number(e.target.value)))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepeatFields;
@@ -0,0 +1,54 @@
+import { AppContext } from "@/App";
+import { useContext } from "react";
+import { format } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Task } from "@/lib/DB";
+import { toastWithUndo } from "@/lib/toast";
+
+const RescheduleModal = ({
+  task,
+  setTask,
+  refresh,
+}: {
+  task: Task | null;
+  setTask: (task: Task | null) => void;
+  refresh: () => void;
+}) => {
+  const { db } = useContext(AppContext);
+
+  if (!task) return null;
+  return (
+    <Dialog open={!!task} onOpenChange={() => setTask(null)}>
+      <DialogContent className="w-fit">
+        <DialogHeader>
+          <DialogTitle>Move To...</DialogTitle>
+          <DialogDescription>Pick a date for "{task.name}".</DialogDescription>
+        </DialogHeader>
+        <Calendar
+          mode="single"
+          selected={task.date}
+          defaultMonth={task.date}
+          onSelect={(val) => {
+            if (!val) return;
+            // The task stays on the same kind of list, e.g. a weekly task
+            // goes to the week containing the picked date
+            db.move(task.id, val, task.period);
+            refresh();
+            setTask(null);
+            toastWithUndo(db, "Task moved", format(val, "MMM d, yyyy"));
+          }}
+          className="rounded-md border"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RescheduleModal;
@@ -0,0 +1,118 @@
+import { AppContext } from "@/App";
+import { KeyboardEvent, useContext, useState } from "react";
+import { CheckIcon, SearchIcon } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Task } from "@/lib/DB";
+import { cn, describeList } from "@/lib/utils";
+
+const SearchDialog = ({
+  open,
+  setOpen,
+  onSelect,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  onSelect: (task: Task) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [query, setQuery] = useState<string>("");
+  const [active, setActive] = useState<number>(0);
+
+  const results = db.search(query);
+
+  const select = (task: Task) => {
+    onSelect(task);
+    setOpen(false);
+    setQuery("");
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive(Math.min(active + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive(Math.max(active - 1, 0));
+    } else if (e.key === "Enter" && results[active]) {
+      e.preventDefault();
+      select(results[active]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-lg gap-2">
+        <DialogHeader>
+          <DialogTitle>Search</DialogTitle>
+          <DialogDescription>
+            Find tasks by name or notes on any list.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          <SearchIcon className="absolute left-2.5 top-2.5 size-4 text-zinc-400" />
+          <Input
+            aria-label="Search"
+            placeholder="Search tasks"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={onKeyDown}
+            className="pl-8"
+            autoFocus
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+            data-form-type="other"
+            data-bwignore
+          />
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {query.trim() && results.length === 0 && (
+            <p className="py-6 text-center text-sm text-zinc-500">
+              No tasks found.
+            </p>
+          )}
+          {results.map((task, index) => (
+            <button
+              key={task.id}
+              className={cn(
+                "w-full flex items-center justify-between gap-3 rounded-md px-2 py-2 text-left text-sm",
+                index === active && "bg-zinc-100"
+              )}
+              onMouseEnter={() => setActive(index)}
+              onClick={() => select(task)}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <CheckIcon
+                  className={cn(
+                    "size-3.5 shrink-0",
+                    task.complete ? "text-zinc-500" : "invisible"
+                  )}
+                />
+                <span
+                  className={cn("truncate", task.complete && "line-through")}
+                >
+                  {task.name}
+                </span>
+              </span>
+              <span className="shrink-0 text-xs text-zinc-500">
+                {describeList(task.date, task.period)}
+              </span>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,217 @@
+import { AppContext } from "@/App";
+import { ChangeEvent, useContext, useEffect, useRef, useState } from "react";
+import {
+  ArchiveRestoreIcon,
+  CalendarCheckIcon,
+  DatabaseIcon,
+  DownloadIcon,
+  RefreshCwIcon,
+  SettingsIcon,
+  SheetIcon,
+  UploadIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AUTO_ROLL_OVER } from "@/lib/DB";
+import { toastRolledOver, toastWithUndo } from "@/lib/toast";
+import { downloadFile } from "@/lib/download";
+import { exportJSON } from "@/lib/export";
+import { exportICS, importICS } from "@/lib/ics";
+import { BACKUP_TYPE } from "@/lib/backup";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { format } from "date-fns";
+import ImportDialog from "./ImportDialog";
+import CsvExportDialog from "./CsvExportDialog";
+import CsvImportDialog from "./CsvImportDialog";
+import SyncDialog from "./SyncDialog";
+
+const SettingsMenu = () => {
+  const { db } = useContext(AppContext);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [exportingCsv, setExportingCsv] = useState<boolean>(false);
+  const [importingCsv, setImportingCsv] = useState<boolean>(false);
+  const [syncOpen, setSyncOpen] = useState<boolean>(false);
+  const icsInput = useRef<HTMLInputElement>(null);
+  const backupInput = useRef<HTMLInputElement>(null);
+  const [autoRollOver, setAutoRollOver] = useState<boolean>(
+    db.getSetting(AUTO_ROLL_OVER) === "true"
+  );
+
+  useEffect(
+    () =>
+      db.subscribe(() =>
+        setAutoRollOver(db.getSetting(AUTO_ROLL_OVER) === "true")
+      ),
+    [db]
+  );
+
+  // Calendar files need no options, so they're imported as soon as they're
+  // picked
+  const onICSFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const { imported, skipped } = importICS(db, await file.text());
+    if (imported === 0) {
+      toast({
+        variant: "destructive",
+        title: "Nothing to import",
+        description:
+          skipped > 0
+            ? "Every task in the file is already in the planner"
+            : "The file has no tasks",
+      });
+      return;
+    }
+    toastWithUndo(
+      db,
+      `Imported ${imported} ${imported === 1 ? "task" : "tasks"}`,
+      skipped > 0 ? `Skipped ${skipped} already in the planner` : undefined
+    );
+  };
+
+  // Restoring can't go through undo history, so the undo here swaps the
+  // previous file back in instead
+  const onBackupFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    let previous: Uint8Array;
+    try {
+      previous = db.restore(new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't restore",
+        description: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+    toast({
+      title: "Database restored",
+      description: file.name,
+      action: (
+        <ToastAction altText="Undo" onClick={() => db.restore(previous)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  return (
+    <>
+      <input
+        ref={backupInput}
+        type="file"
+        accept=".sqlite,.sqlite3,.db,application/vnd.sqlite3"
+        className="hidden"
+        onChange={onBackupFile}
+      />
+      <input
+        ref={icsInput}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={onICSFile}
+      />
+      <ImportDialog open={importing} setOpen={setImporting} />
+      <CsvExportDialog open={exportingCsv} setOpen={setExportingCsv} />
+      <CsvImportDialog open={importingCsv} setOpen={setImportingCsv} />
+      <SyncDialog open={syncOpen} setOpen={setSyncOpen} />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="secondary">
+            <SettingsIcon className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Settings</DropdownMenuLabel>
+          <DropdownMenuCheckboxItem
+            checked={autoRollOver}
+            onCheckedChange={(checked) => {
+              db.setSetting(AUTO_ROLL_OVER, checked ? "true" : "false");
+              // Catch up straight away rather than waiting for tomorrow
+              if (checked) toastRolledOver(db, db.autoRollOver());
+            }}
+          >
+            Roll over unfinished tasks automatically
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuItem onClick={() => setSyncOpen(true)}>
+            <RefreshCwIcon />
+            Sync...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Data</DropdownMenuLabel>
+          <DropdownMenuItem
+            onClick={() =>
+              downloadFile(
+                `planner-${format(new Date(), "yyyy-MM-dd")}.json`,
+                JSON.stringify(exportJSON(db), null, 2),
+                "application/json"
+              )
+            }
+          >
+            <DownloadIcon />
+            Export JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setImporting(true)}>
+            <UploadIcon />
+            Import JSON...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setExportingCsv(true)}>
+            <SheetIcon />
+            Export CSV...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setImportingCsv(true)}>
+            <SheetIcon />
+            Import CSV...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              downloadFile(
+                `planner-${format(new Date(), "yyyy-MM-dd")}.ics`,
+                exportICS(db),
+                "text/calendar"
+              )
+            }
+          >
+            <CalendarCheckIcon />
+            Export Calendar (.ics)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => icsInput.current?.click()}>
+            <CalendarCheckIcon />
+            Import Calendar (.ics)...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() =>
+              downloadFile(
+                `planner-${format(new Date(), "yyyy-MM-dd")}.sqlite`,
+                db.exportBackup(),
+                BACKUP_TYPE
+              )
+            }
+          >
+            <DatabaseIcon />
+            Download Database
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => backupInput.current?.click()}>
+            <ArchiveRestoreIcon />
+            Restore from File...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+export default SettingsMenu;
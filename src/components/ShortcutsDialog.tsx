@@ -0,0 +1,49 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SHORTCUTS } from "@/lib/shortcuts";
+
+const ShortcutsDialog = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => (
+  <Dialog open={open} onOpenChange={setOpen}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Keyboard Shortcuts</DialogTitle>
+        <DialogDescription>
+          These work anywhere but in a text field.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        {Object.values(SHORTCUTS).map(({ keys, description }) => (
+          <div
+            key={description}
+            className="flex items-center justify-between gap-3 text-sm"
+          >
+            <span>{description}</span>
+            <span className="flex gap-1">
+              {keys.map((key) => (
+                <kbd
+                  key={key}
+                  className="min-w-6 rounded border bg-zinc-100 px-1.5 py-0.5 text-center font-mono text-xs text-zinc-700"
+                >
+                  {key}
+                </kbd>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutsDialog;
@@ -0,0 +1,151 @@
+import { AppContext } from "@/App";
+import { useContext, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { RefreshCwIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import {
+  generateSyncCode,
+  setSyncCode,
+  SYNC_CODE,
+  SYNC_LAST_SYNCED,
+  syncNow,
+} from "@/lib/sync";
+
+const SyncDialog = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [code, setCode] = useState<string>(db.getSetting(SYNC_CODE) ?? "");
+  const [lastSynced, setLastSynced] = useState<string>(
+    db.getSetting(SYNC_LAST_SYNCED) ?? ""
+  );
+  const [joinCode, setJoinCode] = useState<string>("");
+  const [syncing, setSyncing] = useState<boolean>(false);
+
+  useEffect(
+    () =>
+      db.subscribe(() => {
+        setCode(db.getSetting(SYNC_CODE) ?? "");
+        setLastSynced(db.getSetting(SYNC_LAST_SYNCED) ?? "");
+      }),
+    [db]
+  );
+
+  const sync = async () => {
+    setSyncing(true);
+    try {
+      const { pulled } = await syncNow(db);
+      toast({
+        title: "Synced",
+        description:
+          pulled > 0
+            ? `${pulled} ${
+                pulled === 1 ? "change" : "changes"
+              } from other devices`
+            : "Everything is up to date",
+      });
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't sync",
+        description: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const turnOn = (newCode: string) => {
+    setSyncCode(db, newCode);
+    setJoinCode("");
+    sync();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            Keep your planner the same on all your devices. Anyone with the sync
+            code can see and change it.
+          </DialogDescription>
+        </DialogHeader>
+        {code ? (
+          <div className="space-y-2">
+            <Label htmlFor="sync_code">Sync code</Label>
+            <Input
+              id="sync_code"
+              readOnly
+              value={code}
+              className="font-mono"
+              onFocus={(e) => e.target.select()}
+            />
+            <p className="text-sm text-zinc-500">
+              Enter this code on your other devices.{" "}
+              {lastSynced
+                ? `Last synced ${formatDistanceToNow(new Date(lastSynced), {
+                    addSuffix: true,
+                  })}.`
+                : "Not synced yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="sync_join">Code from another device</Label>
+            <div className="flex gap-2">
+              <Input
+                id="sync_join"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                className="font-mono"
+                autoComplete="off"
+              />
+              <Button
+                variant="secondary"
+                disabled={!joinCode.trim()}
+                onClick={() => turnOn(joinCode.trim())}
+              >
+                Join
+              </Button>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          {code ? (
+            <>
+              <Button variant="ghost" onClick={() => setSyncCode(db, null)}>
+                Turn Off
+              </Button>
+              <Button disabled={syncing} onClick={sync}>
+                <RefreshCwIcon className={syncing ? "animate-spin" : ""} />
+                Sync Now
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => turnOn(generateSyncCode())}>
+              Create Sync Code
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncDialog;
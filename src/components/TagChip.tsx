@@ -0,0 +1,22 @@
+import { HTMLAttributes } from "react";
+import { cn } from "@/lib/utils";
+import { Tag, TAG_CHIP_CLASSES } from "@/lib/tags";
+
+const TagChip = ({
+  tag,
+  className,
+  ...props
+}: { tag: Tag } & HTMLAttributes<HTMLSpanElement>) => (
+  <span
+    className={cn(
+      "inline-flex items-center rounded-full px-1.5 py-0.5 text-[10px] font-medium leading-none",
+      TAG_CHIP_CLASSES[tag.color],
+      className
+    )}
+    {...props}
+  >
+    {tag.name}
+  </span>
+);
+
+export default TagChip;
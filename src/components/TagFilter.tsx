@@ -0,0 +1,64 @@
+import { AppContext } from "@/App";
+import { useContext, useEffect, useState } from "react";
+import { TagIcon } from "lucide-react";
+import { Tag, TAG_SWATCH_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import TagsModal from "./TagsModal";
+
+const TagFilter = ({
+  selected,
+  setSelected,
+}: {
+  selected: string[];
+  setSelected: (selected: string[]) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [tags, setTags] = useState<Tag[]>(db.listTags());
+  const [managing, setManaging] = useState<boolean>(false);
+
+  useEffect(() => db.subscribe(() => setTags(db.listTags())), [db]);
+
+  // Forget selections for tags that no longer exist
+  useEffect(() => {
+    const ids = new Set(tags.map(({ id }) => id));
+    if (selected.some((id) => !ids.has(id))) {
+      setSelected(selected.filter((id) => ids.has(id)));
+    }
+  }, [tags, selected, setSelected]);
+
+  return (
+    <div className="bg-white rounded-md p-1 flex items-center gap-1 max-w-[40vw] overflow-x-auto">
+      {tags.map((tag) => (
+        <button
+          key={tag.id}
+          className={cn(
+            "inline-flex items-center gap-1.5 shrink-0 rounded-md h-8 px-2 text-xs font-medium transition",
+            selected.includes(tag.id) && "bg-black text-white"
+          )}
+          onClick={() =>
+            setSelected(
+              selected.includes(tag.id)
+                ? selected.filter((id) => id !== tag.id)
+                : [...selected, tag.id]
+            )
+          }
+        >
+          <span
+            className={cn("size-2 rounded-full", TAG_SWATCH_CLASSES[tag.color])}
+          />
+          {tag.name}
+        </button>
+      ))}
+      <button
+        className="inline-flex items-center shrink-0 rounded-md h-8 px-2 text-xs font-medium transition text-zinc-500"
+        onClick={() => setManaging(true)}
+      >
+        <TagIcon className="size-4" />
+        {tags.length === 0 && <span className="ml-1.5">Tags</span>}
+      </button>
+      <TagsModal open={managing} setOpen={setManaging} />
+    </div>
+  );
+};
+
+export default TagFilter;
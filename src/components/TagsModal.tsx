@@ -0,0 +1,153 @@
+import { AppContext } from "@/App";
+import { FormEvent, useContext, useEffect, useState } from "react";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { toastWithUndo } from "@/lib/toast";
+import { Tag, TAG_COLORS, TAG_SWATCH_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+const TagsModal = ({
+  open,
+  setOpen,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}) => {
+  const { db } = useContext(AppContext);
+  const [tags, setTags] = useState<Tag[]>(db.listTags());
+  const [name, setName] = useState<string>("");
+
+  useEffect(() => db.subscribe(() => setTags(db.listTags())), [db]);
+
+  const onSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const tagName = name.trim().replace(/^#/, "");
+    if (!tagName) return;
+    if (tags.some((tag) => tag.name.toLowerCase() === tagName.toLowerCase())) {
+      toast({
+        variant: "destructive",
+        title: "Tag already exists",
+        description: `There is already a tag called "${tagName}"`,
+      });
+      return;
+    }
+    db.createTag(tagName);
+    setName("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription>
+            Add a tag to a task by typing #tag in its name.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {tags.map((tag) => (
+            <TagRow key={tag.id} tag={tag} />
+          ))}
+        </div>
+        <form onSubmit={onSubmit} autoComplete="off" className="flex gap-2">
+          <Input
+            placeholder="New tag"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+            data-form-type="other"
+            data-bwignore
+          />
+          <Button type="submit" variant="secondary">
+            <PlusIcon />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const TagRow = ({ tag }: { tag: Tag }) => {
+  const { db } = useContext(AppContext);
+  const [name, setName] = useState<string>(tag.name);
+
+  const saveName = () => {
+    const tagName = name.trim().replace(/^#/, "");
+    if (!tagName) {
+      setName(tag.name);
+    } else if (tagName !== tag.name) {
+      db.updateTag(tag.id, tagName, tag.color);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={cn(
+              "size-5 shrink-0 rounded-full",
+              TAG_SWATCH_CLASSES[tag.color]
+            )}
+            aria-label="Change color"
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="grid grid-cols-5 gap-1 min-w-0">
+          {TAG_COLORS.map((color) => (
+            <DropdownMenuItem
+              key={color}
+              className="p-1"
+              onClick={() => db.updateTag(tag.id, tag.name, color)}
+            >
+              <span
+                className={cn("size-5 rounded-full", TAG_SWATCH_CLASSES[color])}
+              />
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Input
+        aria-label="Tag name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="h-8"
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        className="shrink-0 text-red-500"
+        onClick={() => {
+          db.deleteTag(tag.id);
+          toastWithUndo(db, "Tag deleted", tag.name);
+        }}
+      >
+        <TrashIcon />
+        <span className="sr-only">Delete tag</span>
+      </Button>
+    </div>
+  );
+};
+
+export default TagsModal;
@@ -0,0 +1,211 @@
+import { AppContext } from "@/App";
+import { useContext, useState } from "react";
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { format } from "date-fns";
+import { ExternalLinkIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import { Task } from "@/lib/DB";
+import { TAG_CHIP_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+// Mount with key={task.id}: fields are seeded from the task once and saved on
+// blur, so a refresh mid-edit doesn't clobber what's being typed.
+const TaskDetailSheet = ({
+  task,
+  close,
+  refresh,
+}: {
+  task: Task;
+  close: () => void;
+  refresh: () => void;
+}) => {
+  const { db } = useContext(AppContext);
+
+  const [name, setName] = useState<string>(task.name);
+  const [url, setUrl] = useState<string>(task.url);
+  const [notes, setNotes] = useState<string>(task.notes);
+  const [editingNotes, setEditingNotes] = useState<boolean>(!task.notes);
+  const [newTag, setNewTag] = useState<string>("");
+
+  const saveName = () => {
+    if (!name.trim()) {
+      setName(task.name);
+    } else if (name !== task.name) {
+      db.update(task.id, name.trim());
+      refresh();
+    }
+  };
+
+  const saveDetails = () => {
+    if (notes !== task.notes || url !== task.url) {
+      db.updateDetails(task.id, { notes, url: url.trim() });
+      refresh();
+    }
+  };
+
+  const toggleTag = (tagId: string) => {
+    db.setTaskTags(
+      task.id,
+      task.tagIds.includes(tagId)
+        ? task.tagIds.filter((id) => id !== tagId)
+        : [...task.tagIds, tagId]
+    );
+    refresh();
+  };
+
+  const addTag = () => {
+    const tagName = newTag.trim().replace(/^#/, "");
+    if (!tagName) return;
+    db.transaction("Tag task", () => {
+      const [tag] = db.ensureTags([tagName]);
+      db.setTaskTags(task.id, [...task.tagIds, tag.id]);
+    });
+    setNewTag("");
+    refresh();
+  };
+
+  const isLink = /^https?:\/\/\S+$/i.test(url.trim());
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && close()}>
+      <SheetContent className="flex flex-col gap-6 w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="sr-only">Task details</SheetTitle>
+          <Input
+            aria-label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={saveName}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="text-lg md:text-lg font-semibold border-none shadow-none px-0 focus-visible:ring-0"
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+            data-form-type="other"
+            data-bwignore
+          />
+          <SheetDescription className="capitalize">
+            {task.period} · {format(task.date, "MMM d, yyyy")}
+            {task.postponed > 0 &&
+              task.originalDate &&
+              ` · postponed ${task.postponed}× since ${format(
+                task.originalDate,
+                "MMM d"
+              )}`}
+          </SheetDescription>
+        </SheetHeader>
+        <div>
+          <Label htmlFor="task_tag">Tags</Label>
+          <div className="flex flex-wrap gap-1.5 mt-1.5">
+            {db.listTags().map((tag) => (
+              <button
+                key={tag.id}
+                className={cn(
+                  "rounded-full px-2 py-1 text-xs font-medium leading-none transition",
+                  TAG_CHIP_CLASSES[tag.color],
+                  !task.tagIds.includes(tag.id) && "opacity-40"
+                )}
+                onClick={() => toggleTag(tag.id)}
+              >
+                {tag.name}
+              </button>
+            ))}
+          </div>
+          <Input
+            id="task_tag"
+            placeholder="Add a tag"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTag();
+            }}
+            className="mt-2"
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+            data-form-type="other"
+            data-bwignore
+          />
+        </div>
+        <div>
+          <Label htmlFor="task_url">Link</Label>
+          <div className="flex gap-2">
+            <Input
+              id="task_url"
+              type="url"
+              placeholder="https://"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onBlur={saveDetails}
+            />
+            {isLink && (
+              <Button size="icon" variant="secondary" asChild>
+                <a href={url.trim()} target="_blank" rel="noreferrer">
+                  <ExternalLinkIcon />
+                  <span className="sr-only">Open link</span>
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col flex-1 min-h-0">
+          <div className="flex justify-between items-center">
+            <Label htmlFor="task_notes">Notes</Label>
+            {notes && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setEditingNotes(!editingNotes)}
+              >
+                {editingNotes ? "Preview" : "Edit"}
+              </Button>
+            )}
+          </div>
+          {editingNotes ? (
+            <Textarea
+              id="task_notes"
+              placeholder="Add notes. Markdown is supported."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={saveDetails}
+              className="flex-1 resize-none font-mono"
+            />
+          ) : (
+            <div
+              className="flex-1 overflow-y-auto text-sm space-y-2 [&_a]:text-indigo-700 [&_a]:underline [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5 [&_code]:bg-zinc-100 [&_code]:rounded [&_code]:px-1"
+              onDoubleClick={() => setEditingNotes(true)}
+            >
+              <Markdown
+                remarkPlugins={[remarkGfm]}
+                components={{
+                  a: ({ href, children }) => (
+                    <a href={href} target="_blank" rel="noreferrer">
+                      {children}
+                    </a>
+                  ),
+                }}
+              >
+                {notes}
+              </Markdown>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TaskDetailSheet;
@@ -1,101 +1,418 @@
 import { AppContext } from "@/App";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Period, Task } from "@/lib/DB";
-import { useContext } from "react";
+import { ENCLOSING_PERIOD, MAX_SUBTASK_DEPTH, Period, Task } from "@/lib/DB";
+import { useContext, useEffect, useRef, useState } from "react";
 import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
+import { DragEndEvent, DragMoveEvent, useDndMonitor } from "@dnd-kit/core";
+import { arrayMove, SortableContext, useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { toastWithUndo } from "@/lib/toast";
+import { flattenTree, TreeItem } from "@/lib/tree";
 import {
-  closestCenter,
-  DndContext,
-  DragEndEvent,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
-} from "@dnd-kit/core";
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FlagIcon,
+  LinkIcon,
+  RepeatIcon,
+  StickyNoteIcon,
+} from "lucide-react";
+import CreateModal from "./CreateModal";
+import RecurrenceModal from "./RecurrenceModal";
+import RescheduleModal from "./RescheduleModal";
+import TaskDetailSheet from "./TaskDetailSheet";
+import TagChip from "./TagChip";
+import { Tag } from "@/lib/tags";
 import {
-  SortableContext,
-  sortableKeyboardCoordinates,
-  useSortable,
-} from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
+  PRIORITIES,
+  Priority,
+  PRIORITY_CLASSES,
+  PRIORITY_LABELS,
+} from "@/lib/priority";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+
+const INDENT_WIDTH = 20;
 
+// Every card's list shares the one DndContext in DatesWithTasksList. Each
+// list follows the drag through useDndMonitor: the list a task starts in
+// works out where it lands, and the list it's over shows a drop marker.
 const TaskList = ({
   tasks,
+  date,
   period,
+  sortable = true,
+  highlightId = null,
   refresh,
 }: {
   tasks: Task[];
+  // The card's date, which tasks dropped here are moved to
+  date: Date;
   period: Period;
+  // Off while the list is filtered, since hidden tasks would lose their
+  // place, and while it's sorted by priority, which isn't the order dragging
+  // would save
+  sortable?: boolean;
+  highlightId?: string | null;
   refresh: () => void;
 }) => {
   const { db } = useContext(AppContext);
-  const sensors = useSensors(
-    useSensor(PointerSensor),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
+  const [recurrenceTask, setRecurrenceTask] = useState<Task | null>(null);
+  const [subtaskParent, setSubtaskParent] = useState<Task | null>(null);
+  const [rescheduleTask, setRescheduleTask] = useState<Task | null>(null);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const cardId = `${date.toISOString()}-${period}`;
+  const ownsDrag = !!drag && tasks.some(({ id }) => id === drag.activeId);
+
+  // A dragged task's subtasks are hidden while it moves and travel with it
+  const items = flattenTree(tasks, collapsed).filter(
+    (item) => !drag || !item.ancestorIds.includes(drag.activeId)
   );
+  const projection = drag && ownsDrag ? getProjection(items, drag) : null;
+  const detailTask = tasks.find(({ id }) => id === detailTaskId);
+  const tagsById = new Map(db.listTags().map((tag) => [tag.id, tag]));
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed);
+    if (!next.delete(id)) next.add(id);
+    setCollapsed(next);
+  };
 
-  const onDragEnd = (e: DragEndEvent) => {
-    const { active, over } = e;
-    if (!!active && !!over) {
-      const _tasks = [...tasks];
-      const oldIndex = _tasks.findIndex((item) => item.id === active.id);
-      const newIndex = _tasks.findIndex((item) => item.id === over.id);
-
-      if (oldIndex !== newIndex) {
-        const [task] = _tasks.splice(oldIndex, 1);
-        _tasks.splice(newIndex, 0, task);
-        db.updateOrder(
-          task.date,
-          period,
-          _tasks.map(({ id }) => id)
-        );
+  const onDragEnd = ({ over }: DragEndEvent) => {
+    const target = over?.data.current as DropTarget | undefined;
+    if (drag && ownsDrag && target && target.cardId !== cardId) {
+      // Dropped on another card: land beside the row it was over, or at the
+      // end if it was over the card itself. The order is made from every task
+      // on the card, as collapsed subtasks aren't among its rows but need
+      // numbering too.
+      const movingIds = [drag.activeId, ...db.descendantIds(drag.activeId)];
+      const targetIds = db
+        .listScheduled(target.date, period)
+        .map(({ id }) => id)
+        .filter((id) => !movingIds.includes(id));
+      // Landing after a row means after its subtasks too
+      const overIndex = targetIds.indexOf(drag.overId);
+      const index =
+        overIndex === -1
+          ? targetIds.length
+          : drag.placement === "after"
+          ? overIndex + 1 + db.descendantIds(drag.overId).length
+          : overIndex;
+      db.move(drag.activeId, target.date, period, [
+        ...targetIds.slice(0, index),
+        ...movingIds,
+        ...targetIds.slice(index),
+      ]);
+      refresh();
+    } else if (drag && projection) {
+      const task = tasks.find(({ id }) => id === drag.activeId);
+      const orderedIds = projection.orderedIds.flatMap((id) =>
+        id === drag.activeId ? [id, ...db.descendantIds(id)] : [id]
+      );
+      const moved =
+        projection.orderedIds.join() !==
+        items.map(({ task }) => task.id).join();
+
+      if (task && task.parentId !== projection.parentId) {
+        db.nest(task.id, projection.parentId, orderedIds);
+        refresh();
+      } else if (task && moved) {
+        db.updateOrder(task.date, period, orderedIds);
         refresh();
       }
     }
+    setDrag(null);
   };
 
   return (
-    <DndContext
-      sensors={sensors}
-      collisionDetection={closestCenter}
-      onDragEnd={onDragEnd}
-    >
-      <SortableContext items={tasks.map(({ id }) => id)}>
-        {tasks.map((task) => (
-          <div key={task.id}>
-            <TaskItem task={task} refresh={refresh} />
+    <>
+      <RecurrenceModal
+        task={recurrenceTask}
+        setTask={setRecurrenceTask}
+        refresh={refresh}
+      />
+      <RescheduleModal
+        task={rescheduleTask}
+        setTask={setRescheduleTask}
+        refresh={refresh}
+      />
+      {detailTask && (
+        <TaskDetailSheet
+          key={detailTask.id}
+          task={detailTask}
+          close={() => setDetailTaskId(null)}
+          refresh={refresh}
+        />
+      )}
+      <CreateModal
+        day={subtaskParent?.date ?? null}
+        setDay={() => setSubtaskParent(null)}
+        period={period}
+        parent={subtaskParent}
+        refresh={refresh}
+      />
+      <DragMonitor setDrag={setDrag} onDragEnd={onDragEnd} />
+      <SortableContext id={cardId} items={items.map(({ task }) => task.id)}>
+        {items.map((item) => (
+          <div key={item.task.id}>
+            <TaskItem
+              item={item}
+              depth={
+                projection && item.task.id === drag?.activeId
+                  ? projection.depth
+                  : item.depth
+              }
+              tags={item.task.tagIds.flatMap((id) => tagsById.get(id) ?? [])}
+              sortable={sortable}
+              cardId={cardId}
+              date={date}
+              dropMarker={
+                drag && !ownsDrag && drag.overId === item.task.id
+                  ? drag.placement
+                  : null
+              }
+              highlighted={item.task.id === highlightId}
+              collapsed={collapsed.has(item.task.id)}
+              toggleCollapsed={() => toggleCollapsed(item.task.id)}
+              refresh={refresh}
+              onOpen={() => setDetailTaskId(item.task.id)}
+              onAddSubtask={setSubtaskParent}
+              onEditRecurrence={setRecurrenceTask}
+              onReschedule={setRescheduleTask}
+            />
           </div>
         ))}
       </SortableContext>
-    </DndContext>
+    </>
   );
 };
 
-const TaskItem = ({ task, refresh }: { task: Task; refresh: () => void }) => {
+type DragState = {
+  activeId: string;
+  overId: string;
+  offsetX: number;
+  // Which side of the row it's over the dragged task's middle is on
+  placement: "before" | "after";
+};
+
+// What every droppable, row or card, says about where it is
+export type DropTarget = { cardId: string; date: Date };
+
+// Hooks can't be called conditionally, so the monitor gets its own component
+// that can be mounted alongside each list
+const DragMonitor = ({
+  setDrag,
+  onDragEnd,
+}: {
+  setDrag: (drag: DragState | null) => void;
+  onDragEnd: (event: DragEndEvent) => void;
+}) => {
+  const track = ({ active, over, delta }: DragMoveEvent) => {
+    const rect = active.rect.current.translated;
+    const below =
+      !!over &&
+      !!rect &&
+      rect.top + rect.height / 2 > over.rect.top + over.rect.height / 2;
+    setDrag({
+      activeId: String(active.id),
+      overId: String(over?.id ?? active.id),
+      offsetX: delta.x,
+      placement: below ? "after" : "before",
+    });
+  };
+
+  useDndMonitor({
+    onDragStart: ({ active }) =>
+      setDrag({
+        activeId: String(active.id),
+        overId: String(active.id),
+        offsetX: 0,
+        placement: "before",
+      }),
+    onDragMove: track,
+    onDragOver: track,
+    onDragEnd: (event) => {
+      onDragEnd(event);
+      setDrag(null);
+    },
+    onDragCancel: () => setDrag(null),
+  });
+  return null;
+};
+
+// Where a dragged task would land: its place in the list comes from the row
+// it's over, and how far it's been dragged sideways picks the depth, within
+// what the neighbouring rows allow.
+const getProjection = (items: TreeItem[], drag: DragState) => {
+  const activeIndex = items.findIndex(({ task }) => task.id === drag.activeId);
+  const overIndex = items.findIndex(({ task }) => task.id === drag.overId);
+  if (activeIndex === -1 || overIndex === -1) return null;
+
+  const active = items[activeIndex];
+  const moved = arrayMove(items, activeIndex, overIndex);
+  const previous = moved[overIndex - 1];
+  const next = moved[overIndex + 1];
+
+  const maxDepth = Math.min(
+    previous ? previous.depth + 1 : 0,
+    MAX_SUBTASK_DEPTH - active.height
+  );
+  const minDepth = next ? next.depth : 0;
+  const projected = active.depth + Math.round(drag.offsetX / INDENT_WIDTH);
+  const depth = Math.max(0, Math.min(maxDepth, Math.max(minDepth, projected)));
+
+  let parentId: string | null = null;
+  if (depth > 0) {
+    for (let i = overIndex - 1; i >= 0; i--) {
+      if (moved[i].depth === depth - 1) {
+        parentId = moved[i].task.id;
+        break;
+      }
+    }
+  }
+
+  return {
+    depth,
+    parentId,
+    orderedIds: moved.map(({ task }) => task.id),
+  };
+};
+
+const NEXT_LABELS: Record<Period, string> = {
+  days: "Next Day",
+  weeks: "Next Week",
+  months: "Next Month",
+  year: "Next Year",
+};
+
+const ENCLOSING_LABELS: Record<Period, string> = {
+  days: "This Week",
+  weeks: "This Month",
+  months: "This Year",
+  year: "",
+};
+
+const TaskItem = ({
+  item,
+  depth,
+  tags,
+  sortable,
+  cardId,
+  date,
+  dropMarker,
+  highlighted,
+  collapsed,
+  toggleCollapsed,
+  refresh,
+  onOpen,
+  onAddSubtask,
+  onEditRecurrence,
+  onReschedule,
+}: {
+  item: TreeItem;
+  depth: number;
+  tags: Tag[];
+  sortable: boolean;
+  cardId: string;
+  date: Date;
+  dropMarker: "before" | "after" | null;
+  highlighted: boolean;
+  collapsed: boolean;
+  toggleCollapsed: () => void;
+  refresh: () => void;
+  onOpen: () => void;
+  onAddSubtask: (task: Task) => void;
+  onEditRecurrence: (task: Task) => void;
+  onReschedule: (task: Task) => void;
+}) => {
   const { db } = useContext(AppContext);
-  const { attributes, listeners, setNodeRef, transform, transition } =
-    useSortable({ id: task.id });
+  const { task } = item;
+  const data: DropTarget = { cardId, date };
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: task.id, data, disabled: !sortable });
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  // Runs after the list has scrolled to its new date range
+  useEffect(() => {
+    if (!highlighted) return;
+    const timeout = setTimeout(
+      () =>
+        rowRef.current?.scrollIntoView({ behavior: "smooth", block: "center" }),
+      100
+    );
+    return () => clearTimeout(timeout);
+  }, [highlighted]);
 
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
+    paddingLeft: depth * INDENT_WIDTH,
   };
 
   return (
-    <div ref={setNodeRef} style={style} {...attributes}>
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(isDragging && "opacity-40")}
+      {...attributes}
+    >
       <ContextMenu>
         <ContextMenuTrigger className="">
-          <div className="flex items-center gap-x-2 cursor-default">
+          <div
+            ref={rowRef}
+            className={cn(
+              "relative flex items-center gap-x-2 cursor-default rounded transition-colors duration-500",
+              highlighted && "bg-yellow-100"
+            )}
+          >
+            {dropMarker && (
+              <div
+                className={cn(
+                  "absolute inset-x-0 h-0.5 rounded bg-indigo-500",
+                  dropMarker === "before" ? "-top-1" : "-bottom-1"
+                )}
+              />
+            )}
+            {item.hasChildren && (
+              <button
+                className="absolute -ml-4 text-zinc-400"
+                onClick={toggleCollapsed}
+                aria-label={collapsed ? "Expand subtasks" : "Collapse subtasks"}
+              >
+                {collapsed ? (
+                  <ChevronRightIcon className="size-3" />
+                ) : (
+                  <ChevronDownIcon className="size-3" />
+                )}
+              </button>
+            )}
             <Checkbox
               id={task.id}
-              checked={task.complete}
+              checked={
+                task.complete
+                  ? true
+                  : item.partiallyComplete
+                  ? "indeterminate"
+                  : false
+              }
               onClick={(e) => e.stopPropagation()} // Stop event from propagating
               onCheckedChange={(val) => {
                 if (val) {
@@ -108,23 +425,150 @@ const TaskItem = ({ task, refresh }: { task: Task; refresh: () => void }) => {
             />
             <div
               {...listeners}
+              onClick={onOpen}
               className="leading-none pt-0.5 pb-1 !cursor-default"
             >
               <label className="text-sm leading-none !cursor-default">
                 {task.name}
               </label>
+              {task.priority && (
+                <FlagIcon
+                  className={cn(
+                    "inline size-3 ml-1.5 fill-current",
+                    PRIORITY_CLASSES[task.priority]
+                  )}
+                  aria-label={PRIORITY_LABELS[task.priority]}
+                />
+              )}
+              {task.recurrenceId && (
+                <RepeatIcon className="inline size-3 ml-1.5 text-zinc-400" />
+              )}
+              {task.notes && (
+                <StickyNoteIcon className="inline size-3 ml-1.5 text-zinc-400" />
+              )}
+              {task.url && (
+                <LinkIcon className="inline size-3 ml-1.5 text-zinc-400" />
+              )}
+              {task.postponed > 0 && (
+                <span
+                  className="ml-1.5 text-[10px] font-medium text-amber-600"
+                  title={
+                    task.originalDate
+                      ? `First planned for ${format(
+                          task.originalDate,
+                          "MMM d, yyyy"
+                        )}`
+                      : undefined
+                  }
+                >
+                  postponed {task.postponed}×
+                </span>
+              )}
+              {tags.map((tag) => (
+                <TagChip key={tag.id} tag={tag} className="ml-1.5" />
+              ))}
             </div>
           </div>
         </ContextMenuTrigger>
         <ContextMenuContent>
+          <ContextMenuItem onClick={onOpen}>Open</ContextMenuItem>
+          {item.depth < MAX_SUBTASK_DEPTH && (
+            <ContextMenuItem onClick={() => onAddSubtask(task)}>
+              Add Subtask
+            </ContextMenuItem>
+          )}
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>Reschedule</ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              <ContextMenuItem
+                onClick={() => {
+                  db.postpone(task.id);
+                  refresh();
+                  toastWithUndo(db, `Moved to ${NEXT_LABELS[task.period]}`);
+                }}
+              >
+                {NEXT_LABELS[task.period]}
+              </ContextMenuItem>
+              {ENCLOSING_PERIOD[task.period] && (
+                <ContextMenuItem
+                  onClick={() => {
+                    db.promote(task.id);
+                    refresh();
+                    toastWithUndo(
+                      db,
+                      `Moved to ${ENCLOSING_LABELS[task.period]}`
+                    );
+                  }}
+                >
+                  {ENCLOSING_LABELS[task.period]}
+                </ContextMenuItem>
+              )}
+              <ContextMenuSeparator />
+              <ContextMenuItem onClick={() => onReschedule(task)}>
+                Pick a Date...
+              </ContextMenuItem>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>Priority</ContextMenuSubTrigger>
+            <ContextMenuSubContent>
+              <ContextMenuRadioGroup
+                value={task.priority ? String(task.priority) : "none"}
+                onValueChange={(val) => {
+                  db.setPriority(
+                    task.id,
+                    val === "none" ? null : (Number(val) as Priority)
+                  );
+                  refresh();
+                }}
+              >
+                {PRIORITIES.map((option) => (
+                  <ContextMenuRadioItem key={option} value={String(option)}>
+                    <FlagIcon
+                      className={cn(
+                        "size-3 mr-2 fill-current",
+                        PRIORITY_CLASSES[option]
+                      )}
+                    />
+                    {PRIORITY_LABELS[option]}
+                  </ContextMenuRadioItem>
+                ))}
+                <ContextMenuRadioItem value="none">
+                  No Priority
+                </ContextMenuRadioItem>
+              </ContextMenuRadioGroup>
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+          {task.recurrenceId && (
+            <>
+              <ContextMenuItem onClick={() => onEditRecurrence(task)}>
+                Edit Repeat...
+              </ContextMenuItem>
+              <ContextMenuItem
+                onClick={() => {
+                  db.stopRecurrence(task.id);
+                  refresh();
+                  toastWithUndo(db, "Stopped repeating", task.name);
+                }}
+              >
+                Stop Repeating
+              </ContextMenuItem>
+            </>
+          )}
+          <ContextMenuSeparator />
           <ContextMenuItem
             onClick={() => {
               db.delete(task.id);
               refresh();
+              toastWithUndo(
+                db,
+                task.recurrenceId ? "Occurrence skipped" : "Task deleted",
+                task.name
+              );
             }}
             className="text-red-500"
           >
-            Delete
+            {task.recurrenceId ? "Skip This Occurrence" : "Delete"}
           </ContextMenuItem>
         </ContextMenuContent>
       </ContextMenu>
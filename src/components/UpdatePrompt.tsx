@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+
+const UpdatePrompt = () => {
+  const {
+    offlineReady: [offlineReady],
+    needRefresh: [needRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast({
+      title: "Ready to work offline",
+      description: "The planner has been saved for use without a connection.",
+    });
+  }, [offlineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast({
+      title: "Update available",
+      description: "A new version of the planner is ready.",
+      duration: Infinity,
+      action: (
+        <ToastAction
+          altText="Reload to update"
+          onClick={() => updateServiceWorker(true)}
+        >
+          Reload
+        </ToastAction>
+      ),
+    });
+  }, [needRefresh, updateServiceWorker]);
+
+  return null;
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { CheckIcon, ChevronsUpDownIcon, FolderCogIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { listWorkspaces, Workspace } from "@/lib/workspaces";
+import WorkspacesModal from "./WorkspacesModal";
+
+const WorkspaceMenu = ({
+  current,
+  onSwitch,
+}: {
+  current: Workspace;
+  onSwitch: (workspace: Workspace) => void;
+}) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(listWorkspaces);
+  const [managing, setManaging] = useState<boolean>(false);
+  const refresh = () => setWorkspaces(listWorkspaces());
+
+  // Other tabs can add, rename and delete them too
+  useEffect(() => {
+    window.addEventListener("storage", refresh);
+    return () => window.removeEventListener("storage", refresh);
+  }, []);
+
+  const name =
+    workspaces.find((workspace) => workspace.id === current.id)?.name ??
+    current.name;
+
+  return (
+    <>
+      <WorkspacesModal
+        open={managing}
+        setOpen={setManaging}
+        current={current}
+        workspaces={workspaces}
+        onChange={refresh}
+        onSwitch={onSwitch}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="secondary" className="max-w-40">
+            <span className="truncate">{name}</span>
+            <ChevronsUpDownIcon className="size-4 text-zinc-500" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => {
+                if (workspace.id !== current.id) onSwitch(workspace);
+              }}
+            >
+              <CheckIcon
+                className={workspace.id === current.id ? "" : "invisible"}
+              />
+              {workspace.name}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setManaging(true)}>
+            <FolderCogIcon />
+            Manage Workspaces...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+export default WorkspaceMenu;
@@ -0,0 +1,163 @@
+import { FormEvent, useState } from "react";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  renameWorkspace,
+  Workspace,
+} from "@/lib/workspaces";
+
+const WorkspacesModal = ({
+  open,
+  setOpen,
+  current,
+  workspaces,
+  onChange,
+  onSwitch,
+}: {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  current: Workspace;
+  workspaces: Workspace[];
+  onChange: () => void;
+  onSwitch: (workspace: Workspace) => void;
+}) => {
+  const [name, setName] = useState<string>("");
+
+  const onSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const workspaceName = name.trim();
+    if (!workspaceName) return;
+    const workspace = createWorkspace(workspaceName);
+    setName("");
+    onChange();
+    setOpen(false);
+    onSwitch(workspace);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Workspaces</DialogTitle>
+          <DialogDescription>
+            Each workspace is a planner of its own, with its own tasks, tags,
+            settings and sync code.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {workspaces.map((workspace) => (
+            <WorkspaceRow
+              key={workspace.id}
+              workspace={workspace}
+              isCurrent={workspace.id === current.id}
+              onChange={onChange}
+            />
+          ))}
+        </div>
+        <form onSubmit={onSubmit} autoComplete="off" className="flex gap-2">
+          <Input
+            placeholder="New workspace"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="off"
+            data-1p-ignore
+            data-lpignore="true"
+            data-form-type="other"
+            data-bwignore
+          />
+          <Button type="submit" variant="secondary">
+            <PlusIcon />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const WorkspaceRow = ({
+  workspace,
+  isCurrent,
+  onChange,
+}: {
+  workspace: Workspace;
+  isCurrent: boolean;
+  onChange: () => void;
+}) => {
+  const [name, setName] = useState<string>(workspace.name);
+
+  const saveName = () => {
+    const workspaceName = name.trim();
+    if (!workspaceName) {
+      setName(workspace.name);
+    } else if (workspaceName !== workspace.name) {
+      renameWorkspace(workspace.id, workspaceName);
+      onChange();
+    }
+  };
+
+  const remove = async () => {
+    try {
+      const undo = await deleteWorkspace(workspace.id);
+      onChange();
+      toast({
+        title: "Workspace deleted",
+        description: workspace.name,
+        action: (
+          <ToastAction
+            altText="Undo"
+            onClick={() => undo().then(onChange, console.error)}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't delete workspace",
+        description: e instanceof Error ? e.message : String(e),
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        aria-label="Workspace name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="h-8"
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        className="shrink-0 text-red-500"
+        // The open workspace is switched away from first
+        disabled={isCurrent}
+        onClick={remove}
+      >
+        <TrashIcon />
+        <span className="sr-only">Delete workspace</span>
+      </Button>
+    </div>
+  );
+};
+
+export default WorkspacesModal;
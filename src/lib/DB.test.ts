@@ -0,0 +1,334 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "@/test/db";
+import { AUTO_ROLL_OVER } from "./DB";
+
+const day = new Date(2026, 9, 19);
+const addDays = (days: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+
+describe("recurring tasks", () => {
+  const repeating = async () => {
+    const db = await openDB();
+    const recurrence = db.createRecurring("Stretch", day, "days", "daily", 1);
+    const occurrence = (date: Date) =>
+      db
+        .listScheduled(date, "days")
+        .find(({ recurrenceId }) => recurrenceId !== null);
+    return { db, recurrence, occurrence };
+  };
+
+  it("lists an occurrence on each day the rule falls on", async () => {
+    const { occurrence } = await repeating();
+    expect(occurrence(day)?.name).toBe("Stretch");
+    expect(occurrence(addDays(5))?.name).toBe("Stretch");
+    expect(occurrence(addDays(-1))).toBeUndefined();
+  });
+
+  it("doesn't list a deleted occurrence again", async () => {
+    const { db, occurrence } = await repeating();
+    db.delete(occurrence(addDays(1))!.id);
+    expect(occurrence(addDays(1))).toBeUndefined();
+    expect(occurrence(addDays(2))).toBeDefined();
+  });
+
+  it("edits one occurrence without touching the rest", async () => {
+    const { db, occurrence } = await repeating();
+    db.updateRecurrence(
+      occurrence(addDays(1))!.id,
+      { name: "Stretch longer", frequency: "daily", interval: 1 },
+      "this"
+    );
+    expect(occurrence(addDays(1))?.name).toBe("Stretch longer");
+    expect(occurrence(addDays(2))?.name).toBe("Stretch");
+  });
+
+  it("splits the rule when editing this and future occurrences", async () => {
+    const { db, occurrence } = await repeating();
+    db.delete(occurrence(addDays(1))!.id);
+    db.delete(occurrence(addDays(5))!.id);
+    db.updateRecurrence(
+      occurrence(addDays(3))!.id,
+      { name: "Stretch longer", frequency: "daily", interval: 1 },
+      "future"
+    );
+
+    expect(occurrence(addDays(2))?.name).toBe("Stretch");
+    expect(occurrence(addDays(4))?.name).toBe("Stretch longer");
+    // Deleted occurrences on either side of the split stay deleted
+    expect(occurrence(addDays(1))).toBeUndefined();
+    expect(occurrence(addDays(5))).toBeUndefined();
+  });
+
+  it("drops the subtasks and tags of occurrences it regenerates", async () => {
+    const { db, occurrence } = await repeating();
+    const later = occurrence(addDays(4))!;
+    const tag = db.createTag("health");
+    db.setTaskTags(later.id, [tag.id]);
+    const subtask = db.createSubtask("Hamstrings", later.id)!;
+    db.updateRecurrence(
+      occurrence(addDays(2))!.id,
+      { name: "Stretch longer", frequency: "daily", interval: 1 },
+      "future"
+    );
+
+    expect(db.read(subtask.id)).toBeNull();
+    expect(db.dumpTables().task_tag).toEqual([]);
+    expect(occurrence(addDays(4))?.name).toBe("Stretch longer");
+  });
+
+  it("keeps finished occurrences when it stops", async () => {
+    const { db, occurrence } = await repeating();
+    const done = occurrence(addDays(3))!;
+    db.markComplete(done.id);
+    const later = occurrence(addDays(5))!;
+    db.createSubtask("Hamstrings", later.id);
+    db.stopRecurrence(occurrence(addDays(1))!.id);
+
+    expect(db.read(done.id)?.complete).toBe(true);
+    expect(occurrence(addDays(2))).toBeUndefined();
+    expect(db.list(addDays(5), "days")).toEqual([]);
+  });
+});
+
+describe("subtasks", () => {
+  const tree = async () => {
+    const db = await openDB();
+    const task = db.create("Move house", day, "days")!;
+    const subtask = db.createSubtask("Pack", task.id)!;
+    const leaf = db.createSubtask("Books", subtask.id)!;
+    return { db, task, subtask, leaf };
+  };
+
+  it("can't be nested deeper than the limit", async () => {
+    const { db, leaf } = await tree();
+    expect(() => db.createSubtask("Paperbacks", leaf.id)).toThrow(
+      "Subtasks can't be nested any deeper."
+    );
+  });
+
+  it("are finished along with their parent", async () => {
+    const { db, task, leaf } = await tree();
+    db.markComplete(task.id);
+    expect(db.read(leaf.id)?.complete).toBe(true);
+  });
+
+  it("uncheck their parents when unchecked, in one step", async () => {
+    const { db, task, subtask, leaf } = await tree();
+    db.markComplete(task.id);
+    db.markIncomplete(leaf.id);
+
+    expect(db.read(subtask.id)?.complete).toBe(false);
+    expect(db.read(task.id)?.complete).toBe(false);
+    expect(db.undo()).toBe("Uncheck task");
+    expect(db.read(task.id)?.complete).toBe(true);
+  });
+
+  it("are deleted with their parent", async () => {
+    const { db, task, leaf } = await tree();
+    db.delete(task.id);
+    expect(db.read(leaf.id)).toBeNull();
+  });
+});
+
+describe("moving tasks", () => {
+  const sortOrders = (db: Awaited<ReturnType<typeof openDB>>, date: Date) =>
+    db.list(date, "days").map(({ name, sortOrder }) => [name, sortOrder]);
+
+  it("takes a task's subtasks along to the other card", async () => {
+    const db = await openDB();
+    const task = db.create("Move house", day, "days")!;
+    const subtask = db.createSubtask("Pack", task.id)!;
+    db.move(task.id, addDays(1), "days");
+
+    expect(db.read(subtask.id)?.date).toEqual(addDays(1));
+    expect(db.read(subtask.id)?.parentId).toBe(task.id);
+  });
+
+  it("numbers every task on both cards", async () => {
+    const db = await openDB();
+    const moving = db.create("Call the bank", day, "days")!;
+    db.create("Pay rent", day, "days");
+    const parent = db.create("Move house", addDays(1), "days")!;
+    const subtask = db.createSubtask("Pack", parent.id)!;
+    const last = db.create("Water plants", addDays(1), "days")!;
+    db.move(moving.id, addDays(1), "days", [
+      parent.id,
+      subtask.id,
+      moving.id,
+      last.id,
+    ]);
+
+    expect(sortOrders(db, addDays(1))).toEqual([
+      ["Move house", 0],
+      ["Pack", 1],
+      ["Call the bank", 2],
+      ["Water plants", 3],
+    ]);
+    expect(sortOrders(db, day)).toEqual([["Pay rent", 0]]);
+  });
+});
+
+describe("search", () => {
+  it("matches the start of each word typed, in names and notes", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.updateDetails(task.id, { notes: "The fern by the window", url: "" });
+    db.create("Feed the cat", day, "days");
+
+    expect(db.search("wat pla").map(({ name }) => name)).toEqual([
+      "Water plants",
+    ]);
+    expect(db.search("fern").map(({ id }) => id)).toEqual([task.id]);
+    expect(db.search("plants cat")).toEqual([]);
+  });
+
+  it("shrugs off punctuation that would break the query", async () => {
+    const db = await openDB();
+    db.create('Call "Mum"', day, "days");
+    expect(() => db.search('"mum* (')).not.toThrow();
+    expect(db.search('"mum"')).toHaveLength(1);
+  });
+
+  it("follows renames and deletes", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.update(task.id, "Repot plants");
+    expect(db.search("water")).toEqual([]);
+    db.delete(task.id);
+    expect(db.search("repot")).toEqual([]);
+  });
+});
+
+describe("rolling over", () => {
+  it("moves unfinished tasks on, counting how often", async () => {
+    const db = await openDB();
+    const yesterday = addDays(-1);
+    const task = db.create("Call the bank", addDays(-2), "days")!;
+    db.create("Done already", yesterday, "days");
+    db.markComplete(db.list(yesterday, "days")[0].id);
+    db.rollOver(yesterday, "days");
+    const moved = db.rollOver(day, "days");
+
+    expect(moved.map(({ id }) => id)).toEqual([task.id]);
+    expect(db.read(task.id)).toMatchObject({
+      date: day,
+      postponed: 2,
+      originalDate: addDays(-2),
+    });
+    expect(db.list(yesterday, "days")).toHaveLength(1);
+    expect(db.rollOver(day, "days")).toEqual([]);
+  });
+
+  it("carries subtasks with their parent, and leaves repeats be", async () => {
+    const db = await openDB();
+    const task = db.create("Move house", addDays(-1), "days")!;
+    const subtask = db.createSubtask("Pack", task.id)!;
+    db.createRecurring("Stretch", addDays(-1), "days", "daily", 1);
+    // Stored, and unfinished
+    db.setPriority(db.listScheduled(addDays(-1), "days")[2].id, 1);
+    db.rollOver(day, "days");
+
+    expect(db.read(subtask.id)).toMatchObject({
+      date: day,
+      parentId: task.id,
+    });
+    expect(db.list(addDays(-1), "days").map(({ name }) => name)).toEqual([
+      "Stretch",
+    ]);
+  });
+});
+
+describe("automatic rollover", () => {
+  it("does nothing unless turned on", async () => {
+    const db = await openDB();
+    db.create("Call the bank", addDays(-1), "days");
+    expect(db.autoRollOver(day)).toEqual([]);
+  });
+
+  it("rolls each kind of list over once per new period", async () => {
+    const db = await openDB();
+    db.setSetting(AUTO_ROLL_OVER, "true");
+    const task = db.create("Call the bank", addDays(-1), "days")!;
+    const monthly = db.create("Budget", new Date(2026, 8, 1), "months")!;
+
+    expect(db.autoRollOver(day).map(({ id }) => id)).toEqual([
+      task.id,
+      monthly.id,
+    ]);
+    db.create("Later", addDays(-1), "days");
+    expect(db.autoRollOver(day)).toEqual([]);
+    expect(db.autoRollOver(addDays(1))).toHaveLength(1);
+  });
+});
+
+describe("sync bookkeeping", () => {
+  it("lists changes to push until they're marked synced", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    const changes = db.pendingChanges(100);
+    expect(changes).toEqual([
+      expect.objectContaining({
+        table: "task",
+        key: JSON.stringify([task.id]),
+        row: expect.objectContaining({ name: "Water plants" }),
+      }),
+    ]);
+
+    db.markSynced(changes);
+    expect(db.pendingChanges(100)).toEqual([]);
+    db.delete(task.id);
+    expect(db.pendingChanges(100)).toEqual([
+      expect.objectContaining({ key: JSON.stringify([task.id]), row: null }),
+    ]);
+  });
+
+  it("takes in only changes newer than its own", async () => {
+    const source = await openDB();
+    const task = source.create("Water plants", day, "days")!;
+    const [change] = source.pendingChanges(1);
+    const db = await openDB();
+
+    expect(db.applyChanges([change])).toBe(1);
+    expect(db.read(task.id)?.name).toBe("Water plants");
+    expect(db.pendingChanges(100)).toEqual([]);
+    const older = {
+      ...change,
+      row: { ...change.row, name: "Old name" },
+      updatedAt: change.updatedAt - 1,
+    };
+    expect(db.applyChanges([older])).toBe(0);
+    expect(db.read(task.id)?.name).toBe("Water plants");
+  });
+});
+
+describe("backups", () => {
+  it("leave out this device's sync settings", async () => {
+    const source = await openDB();
+    source.setSetting("sync.code", "SECRET");
+    source.create("Water plants", day, "days");
+    const backup = source.exportBackup();
+
+    const db = await openDB(backup);
+    expect(db.getSetting("sync.code")).toBeNull();
+    expect(db.list(day, "days")).toHaveLength(1);
+  });
+
+  it("restore without taking another device's sync state", async () => {
+    const source = await openDB();
+    source.setSetting("sync.code", "THEIRS");
+    source.setSetting("sync.cursor", "42");
+    const task = source.create("Water plants", day, "days")!;
+    source.markSynced(source.pendingChanges(100));
+
+    const db = await openDB();
+    db.setSetting("sync.code", "MINE");
+    db.restore(source.export());
+
+    expect(db.getSetting("sync.code")).toBe("MINE");
+    expect(db.getSetting("sync.cursor")).toBeNull();
+    expect(db.read(task.id)?.name).toBe("Water plants");
+    expect(db.pendingChanges(100).map(({ key }) => key)).toEqual([
+      JSON.stringify([task.id]),
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import {
   endOfDay,
+  format,
   startOfDay,
   startOfMonth,
   startOfWeek,
@@ -10,52 +11,187 @@ import {
   subYears,
 } from "date-fns";
 import { customAlphabet } from "nanoid";
-import initSqlJs, { Database } from "sql.js";
-import { startOfPeriod } from "./utils";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import {
+  getSchemaVersion,
+  LATEST_VERSION,
+  migrate,
+  SchemaVersionError,
+} from "./migrations";
+import { History, TrackedTable } from "./history";
+import { IndexedDBStorage, StorageBackend } from "./storage";
+import { TabStorage } from "./tabs";
+import { storageKey } from "./workspaces";
+import { openBackup } from "./backup";
+import type { SyncChange } from "../../server/protocol";
+import { Frequency, occursOn, Recurrence } from "./recurrence";
+import { Tag, TAG_COLORS, TagColor } from "./tags";
+import { Priority, SortMode } from "./priority";
+import { addPeriods, startOfPeriod } from "./utils";
+
+const SAVE_DELAY_MS = 500;
+
+const TRACKED_TABLES: TrackedTable[] = [
+  { name: "task", key: ["id"] },
+  { name: "recurrence", key: ["id"] },
+  { name: "recurrence_skip", key: ["recurrenceId", "date"] },
+  { name: "tag", key: ["id"] },
+  { name: "task_tag", key: ["taskId", "tagId"] },
+  { name: "recurrence_tag", key: ["recurrenceId", "tagId"] },
+  { name: "list_sort", key: ["period", "date"] },
+];
 
-const DB_KEY = "PLANNER_SQLITE";
+let sqlJs: Promise<initSqlJs.SqlJsStatic> | null = null;
 
-export const runSQLite = async (setDb: (db: DB) => void) => {
-  // Load the SQLite library
-  const SQL = await initSqlJs({
-    locateFile: (file) =>
-      `https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.12.0/${file}`,
+export const runSQLite = async (
+  setDb: (db: DB) => void,
+  workspaceId: string
+) => {
+  // Load the SQLite library, once for every workspace opened
+  sqlJs ??= initSqlJs({
+    locateFile: () => sqlWasmUrl,
   });
+  const SQL = await sqlJs;
 
-  setDb(new DB(SQL));
+  const key = storageKey(workspaceId);
+  const storage = new TabStorage(new IndexedDBStorage(key), key);
+  try {
+    const data = await storage.load();
+    setDb(new DB(SQL, data, storage));
+  } catch (e) {
+    storage.close().catch(console.error);
+    throw e;
+  }
 };
 
 export class DB {
+  SQL: initSqlJs.SqlJsStatic;
   db: Database;
+  storage: StorageBackend;
+  history: History;
+  listeners = new Set<() => void>();
+  changeListeners = new Set<(changes: ChangeSet) => void>();
+  // What's changed since the change listeners last heard
+  private changedSince = Date.now();
+  private changes: Omit<ChangeSet, "local"> = emptyChanges();
+  saveTimeout: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(SQL: initSqlJs.SqlJsStatic) {
-    const savedData = localStorage.getItem(DB_KEY);
-    if (savedData) {
-      const binaryArray = new Uint8Array(JSON.parse(savedData));
-      this.db = new SQL.Database(binaryArray);
-    } else {
-      this.db = new SQL.Database();
-      this.db.run(`
-       CREATE TABLE task (
-         id TEXT UNIQUE,
-         name TEXT,
-         complete BOOLEAN,
-         sortOrder INTEGER DEFAULT 0,
-         period TEXT,
-         date TEXT);
-       `);
+  constructor(
+    SQL: initSqlJs.SqlJsStatic,
+    data: Uint8Array | null,
+    storage: StorageBackend
+  ) {
+    this.SQL = SQL;
+    this.storage = storage;
+    this.db = data ? new SQL.Database(data) : new SQL.Database();
+
+    const version = getSchemaVersion(this.db);
+    if (version > LATEST_VERSION) {
+      // Keep a copy out of harm's way before refusing to open it
+      if (data) {
+        storage.backup(`BACKUP_v${version}`, data).catch(console.error);
+      }
+      throw new SchemaVersionError(version);
     }
+
+    if (migrate(this.db)) {
+      this.save();
+    }
+    this.history = new History(this.db, TRACKED_TABLES);
+
+    // Don't lose the last few changes if the tab closes mid-debounce
+    window.addEventListener("pagehide", this.onPageHide);
+    document.addEventListener("visibilitychange", this.onVisibilityChange);
   }
 
+  private onPageHide = () => this.flush();
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") this.flush();
+  };
+
+  // Saves what's outstanding and lets go of the file, as when switching to
+  // another workspace. Nothing can be done with it after.
+  close() {
+    window.removeEventListener("pagehide", this.onPageHide);
+    document.removeEventListener("visibilitychange", this.onVisibilityChange);
+    this.flush();
+    this.listeners.clear();
+    this.changeListeners.clear();
+    this.storage.close().catch(console.error);
+    this.db.close();
+  }
+
+  // Writes are batched: rapid mutations (e.g. a drag reorder touching every
+  // row) result in a single export once things settle.
   save() {
-    localStorage.setItem(DB_KEY, JSON.stringify(Array.from(this.db.export())));
+    if (this.saveTimeout) clearTimeout(this.saveTimeout);
+    this.saveTimeout = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+  }
+
+  flush() {
+    if (!this.saveTimeout) return;
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = null;
+    this.storage.save(this.export()).catch(console.error);
+  }
+
+  export(): Uint8Array {
+    const data = this.db.export();
+    this.history.install();
+    return data;
+  }
+
+  // A copy of the file to download, without this device's own settings
+  exportBackup(): Uint8Array {
+    const copy = new this.SQL.Database(this.export());
+    try {
+      copy.run(`DELETE FROM setting WHERE key LIKE '${DEVICE_SETTINGS}%'`);
+      return copy.export();
+    } finally {
+      copy.close();
+    }
+  }
+
+  // Swaps in a whole database file, e.g. a backup made with exportBackup().
+  // The file replaces everything, so it's saved straight away and undo
+  // history starts over. This device's own settings stay as they were, and
+  // every restored row counts as changed now, so sync pushes it rather than
+  // pulling older copies over it. Returns the data it replaced.
+  restore(data: Uint8Array): Uint8Array {
+    const restored = openBackup(this.SQL, data);
+    const device = this.db.exec(
+      `SELECT key, value FROM setting WHERE key LIKE '${DEVICE_SETTINGS}%'`
+    );
+    restored.run(`DELETE FROM setting WHERE key LIKE '${DEVICE_SETTINGS}%'`);
+    for (const [key, value] of device[0]?.values ?? []) {
+      restored.run("INSERT INTO setting (key, value) VALUES (?, ?)", [
+        key,
+        value,
+      ]);
+    }
+    restored.run("UPDATE sync_row SET updatedAt = ?", [Date.now()]);
+    const previous = this.export();
+
+    if (this.saveTimeout) clearTimeout(this.saveTimeout);
+    this.saveTimeout = null;
+    this.db.close();
+    this.db = restored;
+    this.history = new History(this.db, TRACKED_TABLES);
+    this.resetSync();
+
+    this.storage.save(this.export()).catch(console.error);
+    this.changes.restored = true;
+    this.notify();
+    return previous;
   }
 
   list(day?: Date, period?: Period): Task[] {
     const res =
       !!day && !!period
         ? this.db.exec(
-            `SELECT id, name, complete, sortOrder, period, date
+            `SELECT ${TASK_COLUMNS}
            FROM task
            WHERE date >= ? AND date < ?
              AND period = ?
@@ -64,7 +200,7 @@ export class DB {
           )
         : !!day
         ? this.db.exec(
-            `SELECT id, name, complete, sortOrder, period, date
+            `SELECT ${TASK_COLUMNS}
            FROM task
            WHERE date >= ? AND date < ?
            ORDER BY sortOrder`,
@@ -72,14 +208,14 @@ export class DB {
           )
         : !!period
         ? this.db.exec(
-            `SELECT id, name, complete, sortOrder, period, date
+            `SELECT ${TASK_COLUMNS}
            FROM task
            WHERE period = ?
            ORDER BY sortOrder`,
             [period]
           )
         : this.db.exec(
-            `SELECT id, name, complete, sortOrder, period, date
+            `SELECT ${TASK_COLUMNS}
            FROM task
            ORDER BY sortOrder`
           );
@@ -90,25 +226,28 @@ export class DB {
     ) {
       return [];
     } else {
-      const tasks = [];
-      for (const values of res[0].values) {
-        const [id, name, complete, sortOrder, period, date] = values;
-        tasks.push({
-          id: id?.toString() || "",
-          name: name?.toString() || "",
-          complete: complete?.valueOf() === 1 || false,
-          sortOrder: sortOrder?.valueOf() as number,
-          period: period?.toString() as Period,
-          date: new Date(date?.toString() || ""),
-        });
-      }
-      return tasks;
+      return res[0].values.map(toTask);
     }
   }
 
+  // Tasks on lists starting in [from, to), across the given kinds of list,
+  // in date order
+  listRange(from: Date, to: Date, periods: Period[] = PERIODS): Task[] {
+    if (periods.length === 0) return [];
+    const res = this.db.exec(
+      `SELECT ${TASK_COLUMNS}
+       FROM task
+       WHERE date >= ? AND date < ?
+         AND period IN (${periods.map(() => "?").join(", ")})
+       ORDER BY date, period, sortOrder`,
+      [from.toISOString(), to.toISOString(), ...periods]
+    );
+    return res.length === 0 ? [] : res[0].values.map(toTask);
+  }
+
   read(id: string): Task | null {
     const res = this.db.exec(
-      `SELECT id, name, complete, sortOrder, period, date
+      `SELECT ${TASK_COLUMNS}
        FROM task
        WHERE id = ?`,
       [id]
@@ -120,127 +259,1290 @@ export class DB {
     ) {
       return null;
     } else {
-      const [id, name, complete, sortOrder, period, date] = res[0].values[0];
-      return {
-        id: id?.toString() || "",
-        name: name?.toString() || "",
-        complete: complete?.valueOf() === 1 || false,
-        sortOrder: sortOrder?.valueOf() as number,
-        period: period?.toString() as Period,
-        date: new Date(date?.toString() || ""),
-      };
+      return toTask(res[0].values[0]);
     }
   }
 
+  // Everything that belongs on a card: stored tasks followed by occurrences
+  // of recurring tasks that haven't been materialized or skipped yet
+  listScheduled(day: Date, period: Period): Task[] {
+    const tasks = this.list(day, period);
+    const date = startOfPeriod(day, period);
+    const occurrences = this.listRecurrences(period)
+      .filter(
+        (recurrence) =>
+          occursOn(recurrence, date) &&
+          !this.isOccurrenceHandled(recurrence.id, date)
+      )
+      .map((recurrence, index) => ({
+        id: occurrenceId(recurrence.id, date),
+        name: recurrence.name,
+        complete: false,
+        sortOrder: tasks.length + index + 1,
+        period,
+        date,
+        recurrenceId: recurrence.id,
+        occurrence: date,
+        parentId: null,
+        notes: "",
+        url: "",
+        priority: recurrence.priority,
+        postponed: 0,
+        originalDate: null,
+        tagIds: recurrence.tagIds,
+      }));
+    return [...tasks, ...occurrences];
+  }
+
+  listRecurrences(period?: Period): Recurrence[] {
+    const res = this.db.exec(
+      `SELECT ${RECURRENCE_COLUMNS}
+       FROM recurrence
+       ${period ? "WHERE period = ?" : ""}`,
+      period ? [period] : []
+    );
+    return res.length === 0 ? [] : res[0].values.map(toRecurrence);
+  }
+
+  readRecurrence(id: string): Recurrence | null {
+    const res = this.db.exec(
+      `SELECT ${RECURRENCE_COLUMNS}
+       FROM recurrence
+       WHERE id = ?`,
+      [id]
+    );
+    if (res.length === 0 || res[0].values.length === 0) {
+      return null;
+    } else {
+      return toRecurrence(res[0].values[0]);
+    }
+  }
+
+  // Finds tasks on any list whose name or notes contain words starting with
+  // each word typed, most recent first. Occurrences of recurring tasks only
+  // show up once they've been materialized.
+  search(query: string, limit = 50): Task[] {
+    const match = toMatchQuery(query);
+    if (!match) return [];
+    const res = this.db.exec(
+      `SELECT ${TASK_COLUMNS}
+       FROM task
+       WHERE rowid IN (
+         SELECT docid FROM task_search WHERE task_search MATCH ?)
+       ORDER BY date DESC, sortOrder
+       LIMIT ?`,
+      [match, limit]
+    );
+    return res.length === 0 ? [] : res[0].values.map(toTask);
+  }
+
+  private isOccurrenceHandled(recurrenceId: string, date: Date) {
+    const res = this.db.exec(
+      `SELECT 1 FROM task WHERE recurrenceId = ? AND occurrence = ?
+       UNION ALL
+       SELECT 1 FROM recurrence_skip WHERE recurrenceId = ? AND date = ?`,
+      [recurrenceId, date.toISOString(), recurrenceId, date.toISOString()]
+    );
+    return res.length > 0;
+  }
+
+  // Turns a listed-but-not-stored occurrence into a real task row
+  private materialize(id: string): Task | null {
+    const parsed = parseOccurrenceId(id);
+    const recurrence = parsed && this.readRecurrence(parsed.recurrenceId);
+    if (
+      !parsed ||
+      !recurrence ||
+      !occursOn(recurrence, parsed.date) ||
+      this.isOccurrenceHandled(recurrence.id, parsed.date)
+    ) {
+      return null;
+    }
+
+    return this.transaction("Add task", () => {
+      const date = parsed.date.toISOString();
+      const tasks = this.list(parsed.date, recurrence.period);
+      this.db.run(
+        `
+      INSERT INTO task (id, name, complete, sortOrder, period, date, recurrenceId, occurrence, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);
+      `,
+        [
+          id,
+          recurrence.name,
+          0,
+          tasks.length + 1,
+          recurrence.period,
+          date,
+          recurrence.id,
+          date,
+          recurrence.priority,
+        ]
+      );
+      this.setTaskTags(id, recurrence.tagIds);
+      return this.read(id);
+    });
+  }
+
   checkExists(id: string) {
-    const task = this.read(id);
+    const task = this.read(id) ?? this.materialize(id);
     if (task === null) {
       throw Error("Not Found");
     }
     return task;
   }
 
-  create(name: string, day: Date, period: Period) {
-    const id = generateId();
-    const tasks = this.list(day);
-    const date = startOfPeriod(day, period);
+  create(
+    name: string,
+    day: Date,
+    period: Period,
+    tagIds: string[] = [],
+    priority: Priority | null = null
+  ) {
+    return this.transaction("Add task", () => {
+      const id = generateId();
+      const tasks = this.list(day);
+      const date = startOfPeriod(day, period);
 
-    this.db.run(
-      `
-    INSERT INTO task (id, name, complete, sortOrder, period, date)
-    VALUES (?, ?, ?, ?, ?, ?); 
-    `,
-      [id, name, 0, tasks.length + 1, period, date.toISOString()]
+      this.db.run(
+        `
+      INSERT INTO task (id, name, complete, sortOrder, period, date, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?); 
+      `,
+        [id, name, 0, tasks.length + 1, period, date.toISOString(), priority]
+      );
+      this.setTaskTags(id, tagIds);
+      return this.read(id);
+    });
+  }
+
+  createSubtask(
+    name: string,
+    parentId: string,
+    tagIds: string[] = [],
+    priority: Priority | null = null
+  ) {
+    return this.transaction("Add subtask", () => {
+      const parent = this.checkExists(parentId);
+      if (this.depth(parent.id) >= MAX_SUBTASK_DEPTH) {
+        throw new Error("Subtasks can't be nested any deeper.");
+      }
+      const id = generateId();
+      const tasks = this.list(parent.date, parent.period);
+
+      this.db.run(
+        `
+      INSERT INTO task (id, name, complete, sortOrder, period, date, parentId, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?);
+      `,
+        [
+          id,
+          name,
+          0,
+          tasks.length + 1,
+          parent.period,
+          parent.date.toISOString(),
+          parent.id,
+          priority,
+        ]
+      );
+      this.setTaskTags(id, tagIds);
+      return this.read(id);
+    });
+  }
+
+  // Re-parents a task (null makes it top level) and reorders its card in one
+  // step, which is what a drag that changes indentation amounts to
+  nest(id: string, parentId: string | null, orderedIds: string[]) {
+    this.transaction("Move task", () => {
+      const task = this.checkExists(id);
+      if (parentId) {
+        const parent = this.checkExists(parentId);
+        if (
+          parent.period !== task.period ||
+          parent.date.getTime() !== task.date.getTime()
+        ) {
+          throw new Error("A subtask must be on the same list as its parent.");
+        }
+        if (parent.id === id || this.descendantIds(id).includes(parent.id)) {
+          throw new Error("A task can't be nested under itself.");
+        }
+        if (this.depth(parent.id) + 1 + this.height(id) > MAX_SUBTASK_DEPTH) {
+          throw new Error("Subtasks can't be nested any deeper.");
+        }
+      }
+
+      this.db.run("UPDATE task SET parentId = ? WHERE id = ?", [
+        parentId,
+        task.id,
+      ]);
+      this.updateOrder(task.date, task.period, orderedIds);
+    });
+  }
+
+  // Moves a task, with its subtasks, to another list as a top level task.
+  // The list it lands on is ordered by orderedIds, or it goes to the end
+  // when that's left out, and the list it left is renumbered.
+  move(id: string, day: Date, period: Period, orderedIds?: string[]) {
+    return this.transaction("Move task", () => {
+      const task = this.checkExists(id);
+      const date = startOfPeriod(day, period);
+      const ids = [task.id, ...this.descendantIds(task.id)];
+      const destination = this.list(date, period)
+        .map(({ id }) => id)
+        .filter((id) => !ids.includes(id));
+
+      for (const taskId of ids) {
+        this.db.run("UPDATE task SET date = ?, period = ? WHERE id = ?", [
+          date.toISOString(),
+          period,
+          taskId,
+        ]);
+      }
+      this.db.run("UPDATE task SET parentId = NULL WHERE id = ?", [task.id]);
+
+      this.updateOrder(date, period, orderedIds ?? [...destination, ...ids]);
+      this.updateOrder(
+        task.date,
+        task.period,
+        this.list(task.date, task.period).map(({ id }) => id)
+      );
+      return this.read(id);
+    });
+  }
+
+  // Pushes a task on to the next day, week, month or year of its own kind
+  postpone(id: string) {
+    return this.transaction("Postpone task", () => {
+      const task = this.checkExists(id);
+      this.countPostponed([task.id, ...this.descendantIds(task.id)]);
+      return this.move(
+        task.id,
+        addPeriods(task.date, task.period, 1),
+        task.period
+      );
+    });
+  }
+
+  // Bumps the postponed count, remembering where the task was first planned
+  // the first time round. Call before moving the tasks.
+  private countPostponed(ids: string[]) {
+    for (const id of ids) {
+      this.db.run(
+        `UPDATE task
+            SET postponed = postponed + 1,
+                originalDate = COALESCE(originalDate, date)
+          WHERE id = ?`,
+        [id]
+      );
+    }
+  }
+
+  // Moves a task from a day up to that day's week, a week to its month, or
+  // a month to its year
+  promote(id: string) {
+    return this.transaction("Move task", () => {
+      const task = this.checkExists(id);
+      const period = ENCLOSING_PERIOD[task.period];
+      if (!period) {
+        throw new Error("There's no list above the year.");
+      }
+      return this.move(task.id, task.date, period);
+    });
+  }
+
+  descendantIds(id: string): string[] {
+    const res = this.db.exec(
+      `WITH RECURSIVE descendant(id) AS (
+         SELECT id FROM task WHERE parentId = ?
+         UNION ALL
+         SELECT task.id FROM task JOIN descendant ON task.parentId = descendant.id
+       )
+       SELECT id FROM descendant`,
+      [id]
+    );
+    return res.length === 0
+      ? []
+      : res[0].values.map(([id]) => id?.toString() || "");
+  }
+
+  // How many ancestors a task has; 0 for a top level task
+  private depth(id: string): number {
+    const parentId = this.read(id)?.parentId;
+    return parentId ? 1 + this.depth(parentId) : 0;
+  }
+
+  // How many levels of subtasks sit below a task
+  private height(id: string): number {
+    const res = this.db.exec("SELECT id FROM task WHERE parentId = ?", [id]);
+    if (res.length === 0) return 0;
+    return (
+      1 +
+      Math.max(
+        ...res[0].values.map(([childId]) => this.height(String(childId)))
+      )
     );
-    this.save();
-    return this.read(id);
   }
 
   update(id: string, name: string) {
-    this.checkExists(id);
+    return this.transaction("Rename task", () => {
+      this.checkExists(id);
 
-    this.db.run("UPDATE task SET name = ? WHERE id = ?", [name, id]);
-    return this.read(id);
+      this.db.run("UPDATE task SET name = ? WHERE id = ?", [name, id]);
+      return this.read(id);
+    });
+  }
+
+  updateDetails(id: string, details: { notes: string; url: string }) {
+    return this.transaction("Edit task", () => {
+      this.checkExists(id);
+
+      this.db.run("UPDATE task SET notes = ?, url = ? WHERE id = ?", [
+        details.notes,
+        details.url,
+        id,
+      ]);
+      return this.read(id);
+    });
+  }
+
+  setPriority(id: string, priority: Priority | null) {
+    return this.transaction("Set priority", () => {
+      this.checkExists(id);
+
+      this.db.run("UPDATE task SET priority = ? WHERE id = ?", [priority, id]);
+      return this.read(id);
+    });
   }
 
   markComplete(id: string) {
-    this.checkExists(id);
+    return this.transaction("Complete task", () => {
+      this.checkExists(id);
 
-    this.db.run("UPDATE task SET complete = ? WHERE id = ?", [1, id]);
-    this.save();
-    return this.read(id);
+      // Finishing a task finishes everything under it
+      for (const taskId of [id, ...this.descendantIds(id)]) {
+        this.db.run("UPDATE task SET complete = ? WHERE id = ?", [1, taskId]);
+      }
+      return this.read(id);
+    });
   }
 
   markIncomplete(id: string) {
-    this.checkExists(id);
+    return this.transaction("Uncheck task", () => {
+      const task = this.checkExists(id);
 
-    this.db.run("UPDATE task SET complete = ? WHERE id = ?", [0, id]);
-    this.save();
-    return this.read(id);
+      // A task isn't finished while something under it isn't, so its
+      // parents are unchecked too
+      for (
+        let current: Task | null = task;
+        current;
+        current = current.parentId ? this.read(current.parentId) : null
+      ) {
+        this.db.run("UPDATE task SET complete = ? WHERE id = ?", [
+          0,
+          current.id,
+        ]);
+      }
+      return this.read(id);
+    });
   }
 
   delete(id: string) {
-    const taskToBeDeleted = this.checkExists(id);
+    this.transaction("Delete task", () => {
+      const taskToBeDeleted = this.checkExists(id);
+
+      this.deleteWithSubtasks(id);
+      // Otherwise the occurrence would be listed again
+      if (taskToBeDeleted.recurrenceId && taskToBeDeleted.occurrence) {
+        this.skipOccurrence(
+          taskToBeDeleted.recurrenceId,
+          taskToBeDeleted.occurrence
+        );
+      }
+
+      const tasks = this.list(taskToBeDeleted.date, taskToBeDeleted.period);
+      this.updateOrder(
+        taskToBeDeleted.date,
+        taskToBeDeleted.period,
+        tasks.filter(({ id }) => taskToBeDeleted.id !== id).map(({ id }) => id)
+      );
+    });
+  }
+
+  // Removes a task, everything under it and their tags
+  private deleteWithSubtasks(id: string) {
+    for (const taskId of [id, ...this.descendantIds(id)]) {
+      this.db.run(
+        `DELETE FROM task
+          WHERE id = ?;`,
+        [taskId]
+      );
+      this.db.run("DELETE FROM task_tag WHERE taskId = ?", [taskId]);
+    }
+  }
+
+  private listPrevious(day: Date, period: Period) {
+    return period === "days"
+      ? this.list(startOfDay(subDays(day, 1)), period)
+      : period === "weeks"
+      ? this.list(startOfWeek(subWeeks(day, 1)), period)
+      : period === "months"
+      ? this.list(startOfMonth(subMonths(day, 1)), period)
+      : this.list(startOfYear(subYears(day, 1)), period);
+  }
+
+  copyIncompletes(day: Date, period: Period) {
+    this.transaction("Copy incomplete tasks", () => {
+      const previous = this.listPrevious(day, period);
+      const incompletes = previous.filter((task) => !task.complete);
+
+      // Keep subtasks under their copied parent where the parent came too
+      const copies = new Map<string, string>();
+      for (const task of incompletes) {
+        const parentCopy = task.parentId && copies.get(task.parentId);
+        const copy = parentCopy
+          ? this.createSubtask(
+              task.name,
+              parentCopy,
+              task.tagIds,
+              task.priority
+            )
+          : this.create(task.name, day, period, task.tagIds, task.priority);
+        if (copy) copies.set(task.id, copy.id);
+      }
+    });
+  }
+
+  // Moves the previous period's unfinished tasks onto this one, rather than
+  // copying them, so running it again finds nothing left to carry. Subtasks
+  // travel with an unfinished parent. Repeating tasks are left alone since
+  // they come round again on their own. Returns the tasks that were moved.
+  rollOver(day: Date, period: Period): Task[] {
+    return this.transaction("Roll over incomplete tasks", () => {
+      const previous = this.listPrevious(day, period).filter(
+        (task) => !task.recurrenceId
+      );
+      const byId = new Map(previous.map((task) => [task.id, task]));
+      const isCarried = (task: Task | undefined): boolean =>
+        !!task && !task.complete;
+      const roots = previous.filter(
+        (task) =>
+          isCarried(task) &&
+          !isCarried(task.parentId ? byId.get(task.parentId) : undefined)
+      );
+
+      for (const task of roots) {
+        this.countPostponed([task.id, ...this.descendantIds(task.id)]);
+        this.move(task.id, day, period);
+      }
+      return roots;
+    });
+  }
+
+  // When turned on, rolls over every kind of list the first time it's called
+  // in a new day, week, month or year. Returns the tasks that were moved.
+  autoRollOver(now: Date = new Date()): Task[] {
+    if (this.getSetting(AUTO_ROLL_OVER) !== "true") return [];
+
+    return this.transaction("Roll over incomplete tasks", () =>
+      PERIODS.flatMap((period) => {
+        const current = startOfPeriod(now, period);
+        const key = `${AUTO_ROLL_OVER}.${period}`;
+        if (this.getSetting(key) === current.toISOString()) return [];
+        this.setSetting(key, current.toISOString());
+        return this.rollOver(current, period);
+      })
+    );
+  }
+
+  clearPeriod(day: Date, period: Period) {
+    this.transaction("Clear tasks", () => {
+      for (const task of this.listScheduled(day, period)) {
+        if (task.recurrenceId && task.occurrence) {
+          this.skipOccurrence(task.recurrenceId, task.occurrence);
+        }
+      }
+      const range = [
+        startOfDay(day).toISOString(),
+        endOfDay(day).toISOString(),
+        period,
+      ];
+      this.db.run(
+        `DELETE FROM task_tag WHERE taskId IN (
+           SELECT id FROM task WHERE date >= ? AND date < ? AND period = ?)`,
+        range
+      );
+      this.db.run(
+        "DELETE FROM task WHERE date >= ? AND date < ? AND period = ?",
+        range
+      );
+    });
+  }
+
+  updateOrder(day: Date, period: Period, orderedIds: string[]) {
+    this.transaction("Reorder tasks", () => {
+      const tasks = this.listScheduled(day, period);
+      const taskIdsForDay = new Set(tasks.map((task) => task.id));
 
+      orderedIds.forEach((id, index) => {
+        if (!taskIdsForDay.has(id)) {
+          throw new Error(
+            `Task with id ${id} does not exist for the specified day.`
+          );
+        }
+        this.checkExists(id);
+
+        this.db.run("UPDATE task SET sortOrder = ? WHERE id = ?", [index, id]);
+      });
+    });
+  }
+
+  createRecurring(
+    name: string,
+    day: Date,
+    period: Period,
+    frequency: Frequency,
+    interval: number,
+    tagIds: string[] = [],
+    priority: Priority | null = null
+  ) {
+    return this.transaction("Add repeating task", () => {
+      const id = generateId();
+      this.db.run(
+        `
+      INSERT INTO recurrence (id, name, period, frequency, interval, startDate, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?);
+      `,
+        [
+          id,
+          name,
+          period,
+          frequency,
+          interval,
+          startOfPeriod(day, period).toISOString(),
+          priority,
+        ]
+      );
+      for (const tagId of tagIds) {
+        this.db.run(
+          "INSERT OR IGNORE INTO recurrence_tag (recurrenceId, tagId) VALUES (?, ?)",
+          [id, tagId]
+        );
+      }
+      return this.readRecurrence(id);
+    });
+  }
+
+  // Edits a recurring task either for one occurrence, or for that occurrence
+  // and every one after it. The latter ends the original recurrence the day
+  // before and starts a new one, so past occurrences keep their old rule.
+  updateRecurrence(
+    id: string,
+    changes: { name: string; frequency: Frequency; interval: number },
+    scope: "this" | "future"
+  ) {
+    if (scope === "this") {
+      return this.update(id, changes.name);
+    }
+
+    return this.transaction("Edit repeating task", () => {
+      const task = this.checkExists(id);
+      const recurrence = task.recurrenceId
+        ? this.readRecurrence(task.recurrenceId)
+        : null;
+      if (!recurrence) {
+        throw Error("Not Found");
+      }
+      const from = task.occurrence ?? task.date;
+
+      // Unfinished occurrences from here on are regenerated from the new rule
+      this.deleteUnfinishedOccurrences(recurrence.id, from, true);
+
+      if (from <= recurrence.startDate) {
+        this.db.run(
+          "UPDATE recurrence SET name = ?, frequency = ?, interval = ? WHERE id = ?",
+          [changes.name, changes.frequency, changes.interval, recurrence.id]
+        );
+      } else {
+        this.db.run("UPDATE recurrence SET endDate = ? WHERE id = ?", [
+          subDays(from, 1).toISOString(),
+          recurrence.id,
+        ]);
+        const nextId = generateId();
+        this.db.run(
+          `
+        INSERT INTO recurrence (id, name, period, frequency, interval, startDate, endDate, priority)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?);
+        `,
+          [
+            nextId,
+            changes.name,
+            recurrence.period,
+            changes.frequency,
+            changes.interval,
+            from.toISOString(),
+            recurrence.endDate?.toISOString() ?? null,
+            recurrence.priority,
+          ]
+        );
+        this.db.run(
+          `INSERT INTO recurrence_tag (recurrenceId, tagId)
+           SELECT ?, tagId FROM recurrence_tag WHERE recurrenceId = ?`,
+          [nextId, recurrence.id]
+        );
+        // Deleted occurrences stay deleted under the new rule
+        this.db.run(
+          `UPDATE recurrence_skip SET recurrenceId = ?
+            WHERE recurrenceId = ? AND date >= ?`,
+          [nextId, recurrence.id, from.toISOString()]
+        );
+      }
+    });
+  }
+
+  // Keeps this occurrence, and drops the unfinished ones that follow it
+  stopRecurrence(id: string) {
+    this.transaction("Stop repeating", () => {
+      const task = this.checkExists(id);
+      if (!task.recurrenceId) return;
+      const last = task.occurrence ?? task.date;
+
+      this.deleteUnfinishedOccurrences(task.recurrenceId, last, false);
+      this.db.run("UPDATE recurrence SET endDate = ? WHERE id = ?", [
+        last.toISOString(),
+        task.recurrenceId,
+      ]);
+    });
+  }
+
+  // Deletes the unfinished occurrences after a date, or from it on, with
+  // their subtasks and tags
+  private deleteUnfinishedOccurrences(
+    recurrenceId: string,
+    date: Date,
+    inclusive: boolean
+  ) {
+    const res = this.db.exec(
+      `SELECT id FROM task
+        WHERE recurrenceId = ? AND occurrence ${inclusive ? ">=" : ">"} ?
+          AND complete = 0`,
+      [recurrenceId, date.toISOString()]
+    );
+    for (const [id] of res[0]?.values ?? []) {
+      this.deleteWithSubtasks(String(id));
+    }
+  }
+
+  private skipOccurrence(recurrenceId: string, date: Date) {
     this.db.run(
-      `DELETE FROM task
-        WHERE id = ?;`,
-      [id]
+      "INSERT OR IGNORE INTO recurrence_skip (recurrenceId, date) VALUES (?, ?)",
+      [recurrenceId, date.toISOString()]
     );
+  }
 
-    const tasks = this.list(taskToBeDeleted.date, taskToBeDeleted.period);
-    this.updateOrder(
-      taskToBeDeleted.date,
-      taskToBeDeleted.period,
-      tasks.filter(({ id }) => taskToBeDeleted.id !== id).map(({ id }) => id)
+  getSortMode(day: Date, period: Period): SortMode {
+    const res = this.db.exec(
+      "SELECT mode FROM list_sort WHERE period = ? AND date = ?",
+      [period, startOfPeriod(day, period).toISOString()]
     );
+    return res.length > 0 && res[0].values[0][0] === "priority"
+      ? "priority"
+      : "manual";
+  }
 
-    this.save();
+  // Only the presentation changes; sortOrder is left alone so switching back
+  // to manual restores the drag order
+  setSortMode(day: Date, period: Period, mode: SortMode) {
+    this.transaction("Change sort", () => {
+      const date = startOfPeriod(day, period).toISOString();
+      if (mode === "manual") {
+        this.db.run("DELETE FROM list_sort WHERE period = ? AND date = ?", [
+          period,
+          date,
+        ]);
+      } else {
+        this.db.run(
+          "INSERT OR REPLACE INTO list_sort (period, date, mode) VALUES (?, ?, ?)",
+          [period, date, mode]
+        );
+      }
+    });
   }
 
-  copyIncompletes(day: Date, period: Period) {
-    const previous =
-      period === "days"
-        ? this.list(startOfDay(subDays(day, 1)), period)
-        : period === "weeks"
-        ? this.list(startOfWeek(subWeeks(day, 1)), period)
-        : period === "months"
-        ? this.list(startOfMonth(subMonths(day, 1)), period)
-        : this.list(startOfYear(subYears(day, 1)), period);
-    const incompletes = previous.filter((task) => !task.complete);
-
-    for (const task of incompletes) {
-      this.create(task.name, day, period);
+  // Every table holding planner data: not SQLite's own, not sync
+  // bookkeeping, and not the search index or its shadow tables, which are
+  // rebuilt from task
+  listDataTables(): string[] {
+    const res = this.db.exec(
+      `SELECT name, sql FROM sqlite_master
+        WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+        ORDER BY rowid`
+    );
+    const tables = res.length === 0 ? [] : res[0].values;
+    const virtual = tables
+      .filter(([, sql]) => /^CREATE VIRTUAL TABLE/i.test(sql?.toString() ?? ""))
+      .map(([name]) => name?.toString() ?? "");
+    return tables
+      .map(([name]) => name?.toString() ?? "")
+      .filter(
+        (name) =>
+          name !== "sync_row" &&
+          !virtual.some((v) => name === v || name.startsWith(`${v}_`))
+      );
+  }
+
+  dumpTables(): Record<string, Row[]> {
+    return Object.fromEntries(
+      this.listDataTables().map((table) => {
+        const res = this.db.exec(`SELECT * FROM "${table}" ORDER BY rowid`);
+        const rows =
+          res.length === 0
+            ? []
+            : res[0].values.map((values) =>
+                Object.fromEntries(
+                  res[0].columns.map((column, i) => [
+                    column,
+                    values[i] as Row[string],
+                  ])
+                )
+              );
+        return [table, rows.filter((row) => !isDeviceSetting(table, row))];
+      })
+    );
+  }
+
+  // Which of these task ids are already in the planner
+  existingTaskIds(ids: string[]): string[] {
+    return ids.filter((id) => this.read(id) !== null);
+  }
+
+  // Writes rows table by table as one undoable step. "replace" empties every
+  // data table first. "merge" adds rows alongside what's there; a row that
+  // collides with an existing one on a unique column either leaves the
+  // existing row be ("keep") or takes its place ("overwrite"). This device's
+  // own settings are neither replaced nor imported. Returns how many rows of
+  // each table were written.
+  loadTables(
+    tables: Record<string, Row[]>,
+    mode: "merge" | "replace",
+    onConflict: "keep" | "overwrite" = "keep"
+  ): Record<string, number> {
+    const known = this.listDataTables();
+    for (const table of Object.keys(tables)) {
+      if (!known.includes(table)) {
+        throw new Error(`Unknown table "${table}".`);
+      }
     }
-    this.save();
+
+    const written: Record<string, number> = {};
+    this.transaction("Import data", () => {
+      if (mode === "replace") {
+        for (const table of known) {
+          this.db.run(
+            table === "setting"
+              ? `DELETE FROM setting WHERE key NOT LIKE '${DEVICE_SETTINGS}%'`
+              : `DELETE FROM "${table}"`
+          );
+        }
+      }
+
+      for (const [table, rows] of Object.entries(tables)) {
+        const columns = this.columnNames(table);
+        const uniqueKeys = this.uniqueKeys(table);
+        for (const row of rows) {
+          if (isDeviceSetting(table, row)) continue;
+          const names = Object.keys(row);
+          const unknown = names.find((name) => !columns.includes(name));
+          if (unknown) {
+            throw new Error(`Unknown column "${unknown}" in "${table}".`);
+          }
+
+          // Deleted explicitly, rather than with INSERT OR REPLACE, so the
+          // undo and search index triggers see the row go
+          const matches = uniqueKeys.filter((key) =>
+            key.every((column) => row[column] != null)
+          );
+          const where = (key: string[]) =>
+            key.map((column) => `"${column}" = ?`).join(" AND ");
+          const collides = matches.some(
+            (key) =>
+              this.db.exec(
+                `SELECT 1 FROM "${table}" WHERE ${where(key)}`,
+                key.map((column) => row[column])
+              ).length > 0
+          );
+          if (collides && onConflict === "keep") continue;
+          this.putRow(table, row);
+          written[table] = (written[table] ?? 0) + 1;
+        }
+      }
+    });
+    return written;
   }
 
-  clearPeriod(day: Date, period: Period) {
+  // Writes a row over any it collides with. They're deleted explicitly,
+  // rather than with INSERT OR REPLACE, so the undo, search index and sync
+  // triggers see them go.
+  private putRow(table: string, row: Row) {
+    const names = Object.keys(row);
+    const where = (key: string[]) =>
+      key.map((column) => `"${column}" = ?`).join(" AND ");
+    for (const key of this.uniqueKeys(table)) {
+      if (key.some((column) => row[column] == null)) continue;
+      this.db.run(
+        `DELETE FROM "${table}" WHERE ${where(key)}`,
+        key.map((column) => row[column])
+      );
+    }
     this.db.run(
-      "DELETE FROM task WHERE date >= ? AND date < ? AND period = ?",
-      [startOfDay(day).toISOString(), endOfDay(day).toISOString(), period]
+      `INSERT INTO "${table}" (${names.map((name) => `"${name}"`).join(", ")})
+       VALUES (${names.map(() => "?").join(", ")})`,
+      names.map((name) => row[name])
+    );
+  }
+
+  // Local changes not yet pushed to the sync server, oldest first
+  pendingChanges(limit: number): SyncChange[] {
+    return this.readChanges(
+      `SELECT tbl, key, updatedAt FROM sync_row
+        WHERE pending = 1
+        ORDER BY updatedAt
+        LIMIT ?`,
+      [limit]
     );
+  }
+
+  // Local changes made at or after a time, including deletes
+  private changesSince(since: number): SyncChange[] {
+    return this.readChanges(
+      `SELECT tbl, key, updatedAt FROM sync_row
+        WHERE pending = 1 AND updatedAt >= ?`,
+      [since]
+    );
+  }
+
+  // Reads the rows behind a query on sync_row for tbl, key and updatedAt
+  private readChanges(sql: string, params: SqlValue[]): SyncChange[] {
+    const res = this.db.exec(sql, params);
+    return (res[0]?.values ?? []).flatMap(([table, key, updatedAt]) => {
+      const tracked = TRACKED_TABLES.find(({ name }) => name === table);
+      if (!tracked) return [];
+      const values = JSON.parse(`${key}`) as SqlValue[];
+      const rows = this.db.exec(
+        `SELECT * FROM "${tracked.name}" WHERE ${tracked.key
+          .map((column) => `"${column}" IS ?`)
+          .join(" AND ")}`,
+        values
+      );
+      const row = rows[0]
+        ? (Object.fromEntries(
+            rows[0].columns.map((column, i) => [column, rows[0].values[0][i]])
+          ) as Row)
+        : null;
+      return [
+        {
+          table: tracked.name,
+          key: `${key}`,
+          row,
+          updatedAt: Number(updatedAt),
+        },
+      ];
+    });
+  }
+
+  // Clears the pending flag of pushed changes, unless the row has changed
+  // again since
+  markSynced(changes: SyncChange[]) {
+    for (const { table, key, updatedAt } of changes) {
+      this.db.run(
+        `UPDATE sync_row SET pending = 0
+          WHERE tbl = ? AND key = ? AND updatedAt = ?`,
+        [table, key, updatedAt]
+      );
+    }
     this.save();
   }
 
-  updateOrder(day: Date, period: Period, orderedIds: string[]) {
-    const tasks = this.list(day, period);
-    const taskIdsForDay = new Set(tasks.map((task) => task.id));
+  // Takes in changes pulled from the sync server that are newer than what's
+  // here. They bypass undo history: undo is for this device's own edits.
+  // Changes another tab made here are still to push, so they can be taken
+  // in as pending. Returns how many were applied.
+  applyChanges(changes: SyncChange[], pending = false): number {
+    let applied = 0;
+    this.db.run("BEGIN");
+    try {
+      for (const change of changes) {
+        const tracked = TRACKED_TABLES.find(
+          ({ name }) => name === change.table
+        );
+        if (!tracked) continue;
+        const local = this.db.exec(
+          "SELECT updatedAt FROM sync_row WHERE tbl = ? AND key = ?",
+          [change.table, change.key]
+        );
+        if (Number(local[0]?.values[0][0] ?? -1) >= change.updatedAt) continue;
 
-    orderedIds.forEach((id, index) => {
-      if (!taskIdsForDay.has(id)) {
-        throw new Error(
-          `Task with id ${id} does not exist for the specified day.`
+        const values = JSON.parse(change.key) as SqlValue[];
+        this.db.run(
+          `DELETE FROM "${tracked.name}" WHERE ${tracked.key
+            .map((column) => `"${column}" IS ?`)
+            .join(" AND ")}`,
+          values
         );
+        if (change.row) {
+          // Columns from a newer version of the app are left behind
+          const columns = this.columnNames(tracked.name);
+          this.putRow(
+            tracked.name,
+            Object.fromEntries(
+              Object.entries(change.row).filter(([column]) =>
+                columns.includes(column)
+              )
+            )
+          );
+        }
+        // The triggers stamped this as a new local change; it isn't one
+        this.db.run(
+          `UPDATE sync_row SET updatedAt = ?, pending = ?
+            WHERE tbl = ? AND key = ?`,
+          [change.updatedAt, pending ? 1 : 0, change.table, change.key]
+        );
+        this.changes.applied.push(change);
+        applied++;
       }
+      this.db.run("COMMIT");
+    } catch (e) {
+      this.db.run("ROLLBACK");
+      throw e;
+    }
+    if (applied > 0) {
+      this.save();
+      this.notify();
+    }
+    return applied;
+  }
+
+  // Marks everything as changed, to push it all to a different sync server
+  // or code
+  resetSync() {
+    this.db.run("UPDATE sync_row SET pending = 1");
+    this.save();
+  }
+
+  private columnNames(table: string): string[] {
+    const res = this.db.exec(`PRAGMA table_info("${table}")`);
+    return res.length === 0 ? [] : res[0].values.map(([, name]) => `${name}`);
+  }
 
-      this.db.run("UPDATE task SET sortOrder = ? WHERE id = ?", [index, id]);
+  // The column sets of each UNIQUE constraint on a table
+  private uniqueKeys(table: string): string[][] {
+    const res = this.db.exec(`PRAGMA index_list("${table}")`);
+    if (res.length === 0) return [];
+    const nameIndex = res[0].columns.indexOf("name");
+    const uniqueIndex = res[0].columns.indexOf("unique");
+    return res[0].values
+      .filter((values) => values[uniqueIndex] === 1)
+      .map((values) => {
+        const info = this.db.exec(`PRAGMA index_info("${values[nameIndex]}")`);
+        return info.length === 0
+          ? []
+          : info[0].values.map(([, , name]) => `${name}`);
+      });
+  }
+
+  getSetting(key: string): string | null {
+    const res = this.db.exec("SELECT value FROM setting WHERE key = ?", [key]);
+    return res.length > 0 ? res[0].values[0][0]?.toString() ?? null : null;
+  }
+
+  // Settings aren't in TRACKED_TABLES, so undo leaves them be. That matters
+  // for the rollover bookkeeping: undoing a rollover shouldn't re-arm it.
+  setSetting(key: string, value: string) {
+    this.changes.settings[key] = value;
+    this.transaction("Change setting", () => {
+      this.db.run("INSERT OR REPLACE INTO setting (key, value) VALUES (?, ?)", [
+        key,
+        value,
+      ]);
     });
+  }
 
-    this.save();
+  listTags(): Tag[] {
+    const res = this.db.exec(
+      "SELECT id, name, color FROM tag ORDER BY name COLLATE NOCASE"
+    );
+    return res.length === 0
+      ? []
+      : res[0].values.map(([id, name, color]) => ({
+          id: id?.toString() || "",
+          name: name?.toString() || "",
+          color: (color?.toString() || "zinc") as TagColor,
+        }));
+  }
+
+  createTag(name: string, color?: TagColor): Tag {
+    return this.transaction("Add tag", () => {
+      const tag = {
+        id: generateId(),
+        name,
+        // Rotate through the palette so new tags are told apart by default
+        color: color ?? TAG_COLORS[this.listTags().length % TAG_COLORS.length],
+      };
+      this.db.run("INSERT INTO tag (id, name, color) VALUES (?, ?, ?)", [
+        tag.id,
+        tag.name,
+        tag.color,
+      ]);
+      return tag;
+    });
+  }
+
+  // Looks tags up by name, case-insensitively, creating any that are missing
+  ensureTags(names: string[]): Tag[] {
+    return this.transaction("Add tag", () =>
+      names.map((name) => {
+        const existing = this.listTags().find(
+          (tag) => tag.name.toLowerCase() === name.toLowerCase()
+        );
+        return existing ?? this.createTag(name);
+      })
+    );
+  }
+
+  updateTag(id: string, name: string, color: TagColor) {
+    this.transaction("Edit tag", () => {
+      this.db.run("UPDATE tag SET name = ?, color = ? WHERE id = ?", [
+        name,
+        color,
+        id,
+      ]);
+    });
+  }
+
+  deleteTag(id: string) {
+    this.transaction("Delete tag", () => {
+      this.db.run("DELETE FROM task_tag WHERE tagId = ?", [id]);
+      this.db.run("DELETE FROM recurrence_tag WHERE tagId = ?", [id]);
+      this.db.run("DELETE FROM tag WHERE id = ?", [id]);
+    });
+  }
+
+  setTaskTags(id: string, tagIds: string[]) {
+    this.transaction("Tag task", () => {
+      const task = this.checkExists(id);
+      const current = new Set(task.tagIds);
+      const next = new Set(tagIds);
+
+      for (const tagId of current) {
+        if (!next.has(tagId)) {
+          this.db.run("DELETE FROM task_tag WHERE taskId = ? AND tagId = ?", [
+            task.id,
+            tagId,
+          ]);
+        }
+      }
+      for (const tagId of next) {
+        if (!current.has(tagId)) {
+          this.db.run("INSERT INTO task_tag (taskId, tagId) VALUES (?, ?)", [
+            task.id,
+            tagId,
+          ]);
+        }
+      }
+    });
+  }
+
+  // Groups every mutation made inside fn into one undo step, then persists
+  // and notifies subscribers once. Safe to nest.
+  transaction<T>(label: string, fn: () => T): T {
+    const outermost = !this.history.recording;
+    const result = this.history.record(label, fn);
+    if (outermost) {
+      this.save();
+      this.notify();
+    }
+    return result;
+  }
+
+  undo() {
+    const label = this.history.undo();
+    if (label) {
+      this.save();
+      this.notify();
+    }
+    return label;
+  }
+
+  redo() {
+    const label = this.history.redo();
+    if (label) {
+      this.save();
+      this.notify();
+    }
+    return label;
   }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Like subscribe(), but hears what changed
+  subscribeChanges(listener: (changes: ChangeSet) => void) {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+
+    const { applied, settings, restored } = this.changes;
+    this.changes = emptyChanges();
+    if (this.changeListeners.size === 0) {
+      this.changedSince = Date.now();
+      return;
+    }
+    // sync_row's timestamps are rounded down, so allow a millisecond
+    const local = this.changesSince(this.changedSince - 1);
+    this.changedSince = Date.now();
+    const changes = { local, applied, settings, restored };
+    this.changeListeners.forEach((listener) => listener(changes));
+  }
+}
+
+// What changed between two notifications, for mirroring it elsewhere
+export interface ChangeSet {
+  // Rows changed here, and rows taken in from elsewhere
+  local: SyncChange[];
+  applied: SyncChange[];
+  settings: Record<string, string>;
+  // restore() swapped in a whole new file
+  restored: boolean;
 }
 
+const emptyChanges = (): Omit<ChangeSet, "local"> => ({
+  applied: [],
+  settings: {},
+  restored: false,
+});
+
+// Top level tasks are depth 0, so this allows subtasks of subtasks
+export const MAX_SUBTASK_DEPTH = 2;
+
+export const PERIODS: Period[] = ["days", "weeks", "months", "year"];
+
+// Setting key; per-period bookkeeping is stored under "<key>.<period>"
+export const AUTO_ROLL_OVER = "autoRollOver";
+
+// Settings that belong to this device rather than the planner, like the sync
+// code, which is a secret. Exports leave them out and imports leave them be.
+const DEVICE_SETTINGS = "sync.";
+
+const isDeviceSetting = (table: string, row: Row) =>
+  table === "setting" && String(row.key ?? "").startsWith(DEVICE_SETTINGS);
+
+// The next longer kind of list, which a task can be promoted to
+export const ENCLOSING_PERIOD: Record<Period, Period | null> = {
+  days: "weeks",
+  weeks: "months",
+  months: "year",
+  year: null,
+};
+
+const TASK_COLUMNS = `id, name, complete, sortOrder, period, date, recurrenceId, occurrence,
+   parentId, notes, url, priority, postponed, originalDate,
+   (SELECT group_concat(tagId) FROM task_tag WHERE taskId = task.id)`;
+
+const toTask = (values: SqlValue[]): Task => {
+  const [
+    id,
+    name,
+    complete,
+    sortOrder,
+    period,
+    date,
+    recurrenceId,
+    occurrence,
+    parentId,
+    notes,
+    url,
+    priority,
+    postponed,
+    originalDate,
+    tagIds,
+  ] = values;
+  return {
+    id: id?.toString() || "",
+    name: name?.toString() || "",
+    complete: complete?.valueOf() === 1 || false,
+    sortOrder: sortOrder?.valueOf() as number,
+    period: period?.toString() as Period,
+    date: new Date(date?.toString() || ""),
+    recurrenceId: recurrenceId?.toString() || null,
+    occurrence: occurrence ? new Date(occurrence.toString()) : null,
+    parentId: parentId?.toString() || null,
+    notes: notes?.toString() || "",
+    url: url?.toString() || "",
+    priority: (priority?.valueOf() as Priority) || null,
+    postponed: (postponed?.valueOf() as number) || 0,
+    originalDate: originalDate ? new Date(originalDate.toString()) : null,
+    tagIds: tagIds ? tagIds.toString().split(",") : [],
+  };
+};
+
+const RECURRENCE_COLUMNS = `id, name, period, frequency, interval, startDate, endDate, priority,
+   (SELECT group_concat(tagId) FROM recurrence_tag WHERE recurrenceId = recurrence.id)`;
+
+const toRecurrence = (values: SqlValue[]): Recurrence => {
+  const [
+    id,
+    name,
+    period,
+    frequency,
+    interval,
+    startDate,
+    endDate,
+    priority,
+    tagIds,
+  ] = values;
+  return {
+    id: id?.toString() || "",
+    name: name?.toString() || "",
+    period: period?.toString() as Period,
+    frequency: frequency?.toString() as Frequency,
+    interval: (interval?.valueOf() as number) || 1,
+    startDate: new Date(startDate?.toString() || ""),
+    endDate: endDate ? new Date(endDate.toString()) : null,
+    priority: (priority?.valueOf() as Priority) || null,
+    tagIds: tagIds ? tagIds.toString().split(",") : [],
+  };
+};
+
+// Turns free text into an FTS4 query that ANDs a prefix match per word.
+// Punctuation is dropped so stray quotes or operators can't break the syntax.
+const toMatchQuery = (query: string) =>
+  (query.match(/[\p{L}\p{N}]+/gu) ?? []).map((word) => `${word}*`).join(" ");
+
+// Occurrences of a recurring task aren't stored until someone interacts with
+// them. Until then they're listed under a deterministic id that encodes the
+// recurrence and date, so the first mutation can materialize the row.
+const occurrenceId = (recurrenceId: string, date: Date) =>
+  `R-${recurrenceId}-${format(date, "yyyyMMdd")}`;
+
+const parseOccurrenceId = (id: string) => {
+  const match = /^R-(\w+)-(\d{4})(\d{2})(\d{2})$/.exec(id);
+  if (!match) return null;
+  const [, recurrenceId, year, month, day] = match;
+  return {
+    recurrenceId,
+    date: new Date(Number(year), Number(month) - 1, Number(day)),
+  };
+};
+
 const generateId = () => {
   const nanoid = customAlphabet("23456789ABCDEFGHIJKMNPQRSTUVWXYZ", 10);
   return nanoid();
@@ -253,6 +1555,21 @@ export interface Task {
   sortOrder: number;
   period: Period;
   date: Date;
+  recurrenceId: string | null;
+  // The date this task was generated for, if it came from a recurrence
+  occurrence: Date | null;
+  parentId: string | null;
+  // Markdown
+  notes: string;
+  url: string;
+  priority: Priority | null;
+  // How many times it's been pushed back, and where it was first planned
+  postponed: number;
+  originalDate: Date | null;
+  tagIds: string[];
 }
 
 export type Period = "days" | "weeks" | "months" | "year";
+
+// A table row as plain values, keyed by column name
+export type Row = Record<string, string | number | null>;
@@ -0,0 +1,83 @@
+import initSqlJs, { Database } from "sql.js";
+import {
+  getSchemaVersion,
+  LATEST_VERSION,
+  migrate,
+  SchemaVersionError,
+} from "./migrations";
+
+export const BACKUP_TYPE = "application/vnd.sqlite3";
+
+export class RestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RestoreError";
+  }
+}
+
+// Every table with its columns, and every trigger, e.g. "table task(id, name)"
+const describeSchema = (db: Database): string[] => {
+  const res = db.exec(
+    `SELECT type, name FROM sqlite_master
+      WHERE type IN ('table', 'trigger') AND name NOT LIKE 'sqlite_%'`
+  );
+  return (res[0]?.values ?? []).map(([type, name]) => {
+    if (type !== "table") return `${type} ${name}`;
+    const columns = db.exec(`PRAGMA table_info("${name}")`);
+    return `table ${name}(${(columns[0]?.values ?? [])
+      .map(([, column]) => column)
+      .join(", ")})`;
+  });
+};
+
+// Opens a .sqlite file and checks it's a planner database before it takes
+// the place of the current one. Older planner files are brought up to date;
+// anything missing a table, column or trigger the app relies on is refused.
+export const openBackup = (
+  SQL: initSqlJs.SqlJsStatic,
+  data: Uint8Array
+): Database => {
+  const db = new SQL.Database(data);
+  try {
+    let hasTasks: boolean;
+    try {
+      hasTasks =
+        db.exec("SELECT 1 FROM sqlite_master WHERE name = 'task'").length > 0;
+    } catch {
+      // sql.js only reads the file on first use
+      throw new RestoreError("The file isn't a SQLite database.");
+    }
+    if (!hasTasks) {
+      throw new RestoreError("The file isn't a planner database.");
+    }
+
+    const version = getSchemaVersion(db);
+    if (version > LATEST_VERSION) {
+      throw new SchemaVersionError(version);
+    }
+    try {
+      migrate(db);
+    } catch (e) {
+      throw new RestoreError(`The file couldn't be upgraded: ${e}`);
+    }
+
+    const expected = new SQL.Database();
+    migrate(expected);
+    const actual = new Set(describeSchema(db));
+    const missing = describeSchema(expected).filter(
+      (item) => !actual.has(item)
+    );
+    expected.close();
+    if (missing.length > 0) {
+      throw new RestoreError(
+        `The file doesn't match the planner's schema. Missing ${missing.join(
+          "; "
+        )}.`
+      );
+    }
+    return db;
+  } catch (e) {
+    db.close();
+    throw e;
+  }
+};
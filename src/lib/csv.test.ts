@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "@/test/db";
+import { exportCSV, guessMapping, importCSV, parseCSV, toCSV } from "./csv";
+
+const day = new Date(2026, 9, 19);
+
+describe("toCSV and parseCSV", () => {
+  it("quote what needs it and read it back", () => {
+    const rows = [
+      ["name", "notes"],
+      ['Say "hi"', "one, two\nthree"],
+      ["", "plain"],
+    ];
+    const text = toCSV(rows);
+    expect(text).toContain('"Say ""hi"""');
+    expect(parseCSV(text)).toEqual(rows);
+  });
+
+  it("reads CRLF line endings", () => {
+    expect(parseCSV("a,b\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("guessMapping", () => {
+  it("matches headers ignoring case and spacing", () => {
+    const mapping = guessMapping(["Name", "Due Date", "PRIORITY", "Tags"]);
+    expect(mapping).toMatchObject({ name: 0, priority: 2, tags: 3 });
+    expect(mapping.date).toBeNull();
+  });
+});
+
+describe("CSV import and export", () => {
+  it("brings back what was exported", async () => {
+    const source = await openDB();
+    const tag = source.createTag("home");
+    const task = source.create("Water plants", day, "days", [tag.id], 1)!;
+    source.updateDetails(task.id, { notes: "The fern", url: "" });
+    source.markComplete(task.id);
+    source.create("Budget", day, "months");
+    const rows = parseCSV(
+      exportCSV(source, new Date(2026, 9, 1), new Date(2026, 10, 1), [
+        "days",
+        "months",
+      ])
+    );
+
+    const db = await openDB();
+    const result = importCSV(db, rows, guessMapping(rows[0]), true);
+    expect(result).toEqual({ imported: 2, skipped: [] });
+    expect(db.list(day, "days")[0]).toMatchObject({
+      name: "Water plants",
+      complete: true,
+      priority: 1,
+      notes: "The fern",
+    });
+    expect(db.listTags().map(({ name }) => name)).toEqual(["home"]);
+    expect(db.list(new Date(2026, 9, 1), "months")[0].name).toBe("Budget");
+  });
+
+  it("skips rows it can't read, by spreadsheet line", async () => {
+    const db = await openDB();
+    const rows = parseCSV(
+      "name,date,period\nOne,2026-10-19,day\n,2026-10-19,\nThree,soon,\nFour,2026-10-19,fortnight"
+    );
+    const result = importCSV(db, rows, guessMapping(rows[0]), true);
+
+    expect(result.imported).toBe(1);
+    expect(result.skipped).toEqual([
+      { line: 3, reason: "No name" },
+      { line: 4, reason: 'Unreadable date "soon"' },
+      { line: 5, reason: 'Unknown period "fortnight"' },
+    ]);
+  });
+
+  it("imports as one step that can be undone", async () => {
+    const db = await openDB();
+    const rows = parseCSV("name,date\nOne,2026-10-19\nTwo,2026-10-19");
+    importCSV(db, rows, guessMapping(rows[0]), true);
+    expect(db.undo()).toBe("Import CSV");
+    expect(db.list(day, "days")).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { format, isValid, parseISO } from "date-fns";
+import { DB, Period, PERIODS, Task } from "./DB";
+import { Priority, PRIORITY_LABELS } from "./priority";
+import { Tag } from "./tags";
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, with
+// quotes doubled
+export const toCSV = (rows: string[][]): string =>
+  rows
+    .map((row) =>
+      row
+        .map((field) =>
+          /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+        )
+        .join(",")
+    )
+    .join("\r\n");
+
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Spreadsheet apps like to start UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines, e.g. a trailing newline, aren't rows
+  return rows.filter((row) => row.some((field) => field.trim()));
+};
+
+// Export columns, in order. Add new task fields here to have them exported.
+const CSV_COLUMNS: {
+  header: string;
+  value: (task: Task, tagsById: Map<string, Tag>) => string;
+}[] = [
+  { header: "name", value: (task) => task.name },
+  { header: "complete", value: (task) => (task.complete ? "true" : "false") },
+  { header: "period", value: (task) => task.period },
+  { header: "date", value: (task) => format(task.date, "yyyy-MM-dd") },
+  { header: "sortOrder", value: (task) => String(task.sortOrder) },
+  {
+    header: "priority",
+    value: (task) => (task.priority ? PRIORITY_LABELS[task.priority] : ""),
+  },
+  {
+    header: "tags",
+    value: (task, tagsById) =>
+      task.tagIds.flatMap((id) => tagsById.get(id)?.name ?? []).join(", "),
+  },
+  { header: "notes", value: (task) => task.notes },
+  { header: "url", value: (task) => task.url },
+  { header: "postponed", value: (task) => String(task.postponed) },
+  { header: "id", value: (task) => task.id },
+  { header: "parentId", value: (task) => task.parentId ?? "" },
+];
+
+export const exportCSV = (
+  db: DB,
+  from: Date,
+  to: Date,
+  periods: Period[]
+): string => {
+  const tagsById = new Map(db.listTags().map((tag) => [tag.id, tag]));
+  return toCSV([
+    CSV_COLUMNS.map(({ header }) => header),
+    ...db
+      .listRange(from, to, periods)
+      .map((task) => CSV_COLUMNS.map(({ value }) => value(task, tagsById))),
+  ]);
+};
+
+// What a CSV column can be imported as
+export const IMPORT_FIELDS = [
+  "name",
+  "date",
+  "period",
+  "complete",
+  "priority",
+  "tags",
+  "notes",
+  "url",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Which column index each field comes from, if any
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Matches header names to fields, ignoring case and spacing
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map((name) =>
+    name.toLowerCase().replace(/[\s_-]/g, "")
+  );
+  return Object.fromEntries(
+    IMPORT_FIELDS.map((field) => {
+      const index = normalized.indexOf(field.toLowerCase());
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+};
+
+const parseDate = (value: string): Date | null => {
+  const date = /^\d{4}-\d{2}-\d{2}/.test(value)
+    ? parseISO(value)
+    : new Date(value);
+  return isValid(date) ? date : null;
+};
+
+const parsePeriod = (value: string): Period | null => {
+  const period = value.trim().toLowerCase();
+  if (!period) return "days";
+  // "day", "days", "year", "years" and so on
+  return (
+    PERIODS.find(
+      (p) => p === period || p === `${period}s` || `${p}s` === period
+    ) ?? null
+  );
+};
+
+const parsePriority = (value: string): Priority | null => {
+  const match = /^p?([1-4])$/i.exec(value.trim());
+  return match ? (Number(match[1]) as Priority) : null;
+};
+
+const parseBoolean = (value: string) =>
+  ["true", "yes", "y", "1", "x", "done", "✓"].includes(
+    value.trim().toLowerCase()
+  );
+
+// Creates a task per row as one undoable step. Rows that can't be read are
+// skipped and reported by line number (1-based, as in a spreadsheet).
+export const importCSV = (
+  db: DB,
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean
+): { imported: number; skipped: { line: number; reason: string }[] } => {
+  const skipped: { line: number; reason: string }[] = [];
+  let imported = 0;
+  const get = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : row[index]?.trim() ?? "";
+  };
+
+  db.transaction("Import CSV", () => {
+    rows.forEach((row, index) => {
+      if (hasHeader && index === 0) return;
+      const line = index + 1;
+
+      const name = get(row, "name");
+      const date =
+        mapping.date === null ? new Date() : parseDate(get(row, "date"));
+      const period = parsePeriod(get(row, "period"));
+      if (!name) {
+        skipped.push({ line, reason: "No name" });
+        return;
+      } else if (!date) {
+        skipped.push({ line, reason: `Unreadable date "${get(row, "date")}"` });
+        return;
+      } else if (!period) {
+        skipped.push({
+          line,
+          reason: `Unknown period "${get(row, "period")}"`,
+        });
+        return;
+      }
+
+      const tagNames = get(row, "tags")
+        .split(/[,;]/)
+        .map((tag) => tag.trim().replace(/^#/, ""))
+        .filter(Boolean);
+      const tagIds = db.ensureTags(tagNames).map(({ id }) => id);
+      const task = db.create(
+        name,
+        date,
+        period,
+        tagIds,
+        parsePriority(get(row, "priority"))
+      );
+      if (!task) return;
+
+      const notes = get(row, "notes");
+      const url = get(row, "url");
+      if (notes || url) db.updateDetails(task.id, { notes, url });
+      if (parseBoolean(get(row, "complete"))) db.markComplete(task.id);
+      imported++;
+    });
+  });
+  return { imported, skipped };
+};
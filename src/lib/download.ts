@@ -0,0 +1,14 @@
+// Hands a generated file to the browser as a download
+export const downloadFile = (
+  filename: string,
+  data: BlobPart,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before letting go of the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "@/test/db";
+import {
+  exportJSON,
+  ImportError,
+  importJSON,
+  parseJSONExport,
+  PlannerExport,
+} from "./export";
+import { LATEST_VERSION } from "./migrations";
+
+const day = new Date(2026, 9, 19);
+
+// Through text, as a download and upload would
+const roundTrip = (data: PlannerExport) =>
+  parseJSONExport(JSON.stringify(data));
+
+describe("JSON export", () => {
+  it("brings back every task, tag and repeat on import", async () => {
+    const source = await openDB();
+    const tag = source.createTag("home");
+    const task = source.create("Water plants", day, "days", [tag.id], 2)!;
+    source.createSubtask("Fern", task.id);
+    source.createRecurring("Stretch", day, "days", "daily", 1);
+
+    const db = await openDB();
+    importJSON(db, roundTrip(exportJSON(source)), "replace");
+    expect(db.listScheduled(day, "days")).toEqual(
+      source.listScheduled(day, "days")
+    );
+    expect(db.listTags()).toEqual(source.listTags());
+  });
+
+  it("keeps or overwrites tasks that are already here", async () => {
+    const source = await openDB();
+    const task = source.create("Water plants", day, "days")!;
+    const data = roundTrip(exportJSON(source));
+    const db = await openDB();
+    importJSON(db, data, "replace");
+    db.update(task.id, "Water the plants");
+
+    expect(importJSON(db, data, "merge", "keep")).toEqual({});
+    expect(db.read(task.id)?.name).toBe("Water the plants");
+    expect(importJSON(db, data, "merge", "overwrite")).toMatchObject({
+      task: 1,
+    });
+    expect(db.read(task.id)?.name).toBe("Water plants");
+  });
+
+  it("imports as one step that can be undone", async () => {
+    const source = await openDB();
+    source.create("Water plants", day, "days");
+    const db = await openDB();
+    const kept = db.create("Feed the cat", day, "days")!;
+    importJSON(db, roundTrip(exportJSON(source)), "replace");
+
+    expect(db.list(day, "days").map(({ name }) => name)).toEqual([
+      "Water plants",
+    ]);
+    db.undo();
+    expect(db.list(day, "days").map(({ id }) => id)).toEqual([kept.id]);
+  });
+
+  it("leaves out this device's sync settings", async () => {
+    const source = await openDB();
+    source.setSetting("sync.code", "SECRET");
+    source.setSetting("autoRollOver", "true");
+    const data = roundTrip(exportJSON(source));
+    expect(JSON.stringify(data)).not.toContain("SECRET");
+
+    const db = await openDB();
+    db.setSetting("sync.code", "MINE");
+    importJSON(
+      db,
+      {
+        ...data,
+        tables: {
+          ...data.tables,
+          setting: [{ key: "sync.code", value: "THEIRS" }],
+        },
+      },
+      "replace"
+    );
+    expect(db.getSetting("sync.code")).toBe("MINE");
+  });
+
+  it("explains what's wrong with a file it can't read", () => {
+    expect(() => parseJSONExport("{")).toThrow(ImportError);
+    expect(() =>
+      parseJSONExport(
+        JSON.stringify({
+          format: "planner",
+          version: 1,
+          schemaVersion: LATEST_VERSION + 1,
+          exportedAt: "",
+          tables: { task: [] },
+        })
+      )
+    ).toThrow("newer version");
+  });
+
+  it("rejects tables and columns it doesn't know", async () => {
+    const db = await openDB();
+    const data = roundTrip(exportJSON(db));
+    expect(() =>
+      importJSON(db, { ...data, tables: { ...data.tables, nope: [] } }, "merge")
+    ).toThrow('Unknown table "nope".');
+  });
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { DB, PERIODS, Row } from "./DB";
+import { getSchemaVersion, LATEST_VERSION } from "./migrations";
+
+// JSON export format. A file looks like:
+//
+//   {
+//     "format": "planner",
+//     "version": 1,
+//     "schemaVersion": 9,
+//     "exportedAt": "2026-10-19T12:00:00.000Z",
+//     "tables": {
+//       "task": [{ "id": "X7K2M9QPAB", "name": "Buy milk", "complete": 0, ... }],
+//       "recurrence": [...],
+//       ...
+//     }
+//   }
+//
+// "tables" holds every row of every data table exactly as stored: dates are
+// ISO 8601 strings, booleans are 0 or 1 and missing values are null. New
+// tables and columns show up without a format change; "schemaVersion" says
+// which migration the rows match. "version" only goes up if the envelope
+// itself changes.
+export const EXPORT_FORMAT = "planner";
+export const EXPORT_VERSION = 1;
+
+const cell = z.union([z.string(), z.number(), z.null()]);
+
+const taskRow = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    complete: z.union([z.literal(0), z.literal(1)]),
+    sortOrder: z.number(),
+    period: z.enum(PERIODS as [string, ...string[]]),
+    date: z.string().datetime(),
+  })
+  .catchall(cell);
+
+export const plannerExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  schemaVersion: z
+    .number()
+    .int()
+    .max(
+      LATEST_VERSION,
+      "This file comes from a newer version of the app. Please update the app."
+    ),
+  exportedAt: z.string(),
+  tables: z
+    .object({ task: z.array(taskRow) })
+    .catchall(z.array(z.record(cell))),
+});
+
+export type PlannerExport = z.infer<typeof plannerExportSchema>;
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export const exportJSON = (db: DB): PlannerExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  schemaVersion: getSchemaVersion(db.db),
+  exportedAt: new Date().toISOString(),
+  tables: db.dumpTables() as PlannerExport["tables"],
+});
+
+export const parseJSONExport = (text: string): PlannerExport => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ImportError("The file isn't valid JSON.");
+  }
+
+  const result = plannerExportSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map(({ path, message }) =>
+        path.length > 0 ? `${path.join(".")}: ${message}` : message
+      );
+    throw new ImportError(issues.join("\n"));
+  }
+  return result.data;
+};
+
+export const importJSON = (
+  db: DB,
+  data: PlannerExport,
+  mode: "merge" | "replace",
+  onConflict: "keep" | "overwrite" = "keep"
+) => {
+  try {
+    return db.loadTables(
+      data.tables as Record<string, Row[]>,
+      mode,
+      onConflict
+    );
+  } catch (e) {
+    throw new ImportError(e instanceof Error ? e.message : String(e));
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "@/test/db";
+
+const day = new Date(2026, 9, 19);
+
+describe("undo history", () => {
+  it("undoes and redoes a change", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.update(task.id, "Water the plants");
+
+    expect(db.undo()).toBe("Rename task");
+    expect(db.read(task.id)?.name).toBe("Water plants");
+    expect(db.redo()).toBe("Rename task");
+    expect(db.read(task.id)?.name).toBe("Water the plants");
+  });
+
+  it("undoes nested changes as one step", async () => {
+    const db = await openDB();
+    const yesterday = new Date(2026, 9, 18);
+    db.create("One", yesterday, "days");
+    db.create("Two", yesterday, "days");
+    db.copyIncompletes(day, "days");
+    expect(db.list(day, "days")).toHaveLength(2);
+
+    expect(db.undo()).toBe("Copy incomplete tasks");
+    expect(db.list(day, "days")).toHaveLength(0);
+    expect(db.list(yesterday, "days")).toHaveLength(2);
+  });
+
+  it("forgets what was undone once something else changes", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.delete(task.id);
+    db.undo();
+    db.create("Feed the cat", day, "days");
+
+    expect(db.redo()).toBeNull();
+    expect(db.read(task.id)).not.toBeNull();
+  });
+
+  it("leaves nothing behind when a change fails part way", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+
+    expect(() =>
+      db.transaction("Broken", () => {
+        db.update(task.id, "Renamed");
+        throw new Error("Failed");
+      })
+    ).toThrow("Failed");
+    expect(db.read(task.id)?.name).toBe("Water plants");
+    expect(db.undo()).toBe("Add task");
+  });
+});
@@ -0,0 +1,152 @@
+import { Database } from "sql.js";
+
+const HISTORY_LIMIT = 100;
+
+export interface TrackedTable {
+  name: string;
+  // Columns that identify a row; used instead of rowid so restored rows keep
+  // their identity
+  key: string[];
+}
+
+interface HistoryEntry {
+  label: string;
+  // SQL that reverses the change, in the order it was captured
+  statements: string[];
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Undo/redo modelled on https://sqlite.org/undoredo.html: temp triggers on
+// each tracked table write the inverse of every change into a log, and a
+// group of those statements makes up one undoable command. Replaying a
+// command's statements backwards undoes it, and the triggers capture the
+// inverse of *that*, which becomes the redo command.
+//
+// sql.js drops temp triggers and user functions whenever the database is
+// exported, so install() has to be called again after every export.
+export class History {
+  db: Database;
+  tables: TrackedTable[];
+  undoStack: HistoryEntry[] = [];
+  redoStack: HistoryEntry[] = [];
+  log: string[] | null = null;
+
+  constructor(db: Database, tables: TrackedTable[]) {
+    this.db = db;
+    this.tables = tables;
+    this.install();
+  }
+
+  install() {
+    this.db.create_function("history_log", (sql: string) => {
+      this.log?.push(sql);
+      return null;
+    });
+
+    for (const { name, key } of this.tables) {
+      const res = this.db.exec(`PRAGMA table_info(${quoteIdent(name)})`);
+      const columns = res[0].values.map((values) => values[1] as string);
+      const table = quoteIdent(name);
+      const where = (row: "old" | "new") =>
+        key
+          .map(
+            (col) => `'${quoteIdent(col)}=' || quote(${row}.${quoteIdent(col)})`
+          )
+          .join(` || ' AND ' || `);
+
+      this.db.run(`
+        CREATE TEMP TRIGGER IF NOT EXISTS history_${name}_insert
+        AFTER INSERT ON main.${table} BEGIN
+          SELECT history_log('DELETE FROM ${table} WHERE ' || ${where("new")});
+        END;`);
+      this.db.run(`
+        CREATE TEMP TRIGGER IF NOT EXISTS history_${name}_update
+        AFTER UPDATE ON main.${table} BEGIN
+          SELECT history_log('UPDATE ${table} SET ' || ${columns
+        .map((col) => `'${quoteIdent(col)}=' || quote(old.${quoteIdent(col)})`)
+        .join(` || ',' || `)} || ' WHERE ' || ${where("new")});
+        END;`);
+      this.db.run(`
+        CREATE TEMP TRIGGER IF NOT EXISTS history_${name}_delete
+        AFTER DELETE ON main.${table} BEGIN
+          SELECT history_log('INSERT INTO ${table} (${columns
+        .map(quoteIdent)
+        .join(",")}) VALUES (' || ${columns
+        .map((col) => `quote(old.${quoteIdent(col)})`)
+        .join(` || ',' || `)} || ')');
+        END;`);
+    }
+  }
+
+  get recording() {
+    return this.log !== null;
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  // Runs fn as a single undoable command. Nested calls are folded into the
+  // outermost one, so e.g. copyIncompletes calling create() undoes as a unit.
+  record<T>(label: string, fn: () => T): T {
+    if (this.recording) return fn();
+
+    const { result, statements } = this.capture(fn);
+    if (statements.length > 0) {
+      this.undoStack.push({ label, statements });
+      if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+      this.redoStack = [];
+    }
+    return result;
+  }
+
+  undo(): string | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push({ label: entry.label, statements: this.replay(entry) });
+    return entry.label;
+  }
+
+  redo(): string | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push({ label: entry.label, statements: this.replay(entry) });
+    return entry.label;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private replay(entry: HistoryEntry): string[] {
+    return this.capture(() => {
+      for (const sql of [...entry.statements].reverse()) {
+        this.db.run(sql);
+      }
+    }).statements;
+  }
+
+  // Runs fn inside a savepoint, so a throw part way through doesn't leave a
+  // half-applied change behind, and returns the statements it logged.
+  private capture<T>(fn: () => T) {
+    this.log = [];
+    this.db.run("SAVEPOINT history");
+    try {
+      const result = fn();
+      this.db.run("RELEASE history");
+      return { result, statements: this.log };
+    } catch (e) {
+      this.db.run("ROLLBACK TO history");
+      this.db.run("RELEASE history");
+      throw e;
+    } finally {
+      this.log = null;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { openDB } from "@/test/db";
+import { exportICS, importICS } from "./ics";
+import { PRIORITIES } from "./priority";
+
+const day = new Date(2026, 9, 19);
+
+const calendar = (...todos: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Elsewhere//EN",
+    ...todos.flatMap((lines) => ["BEGIN:VTODO", ...lines, "END:VTODO"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+describe("iCalendar export and import", () => {
+  it("brings every priority back as itself", async () => {
+    const source = await openDB();
+    for (const priority of PRIORITIES) {
+      source.create(`P${priority}`, day, "days", [], priority);
+    }
+
+    const db = await openDB();
+    importICS(db, exportICS(source));
+    expect(
+      db.list(day, "days").map(({ name, priority }) => [name, priority])
+    ).toEqual(PRIORITIES.map((priority) => [`P${priority}`, priority]));
+  });
+
+  it("brings back lists, subtasks, tags and notes", async () => {
+    const source = await openDB();
+    const tag = source.createTag("home, garden");
+    const task = source.create("Water plants", day, "weeks", [tag.id])!;
+    source.updateDetails(task.id, { notes: "Line one\nLine; two", url: "" });
+    source.createSubtask("Fern", task.id);
+    source.markComplete(task.id);
+
+    const db = await openDB();
+    expect(importICS(db, exportICS(source))).toEqual({
+      imported: 2,
+      skipped: 0,
+    });
+    // Weeks start on Sunday
+    const [parent, subtask] = db.list(new Date(2026, 9, 18), "weeks");
+    expect(parent).toMatchObject({
+      name: "Water plants",
+      complete: true,
+      notes: "Line one\nLine; two",
+    });
+    expect(subtask).toMatchObject({ name: "Fern", parentId: parent.id });
+    expect(db.listTags().map(({ name }) => name)).toEqual(["home, garden"]);
+  });
+
+  it("skips tasks that are already in the planner", async () => {
+    const db = await openDB();
+    db.create("Water plants", day, "days");
+    expect(importICS(db, exportICS(db))).toEqual({ imported: 0, skipped: 1 });
+  });
+
+  it("reads other apps' priorities and guesses their lists", async () => {
+    const db = await openDB();
+    importICS(
+      db,
+      calendar(
+        ["SUMMARY:Urgent-ish", "PRIORITY:2", "DUE;VALUE=DATE:20261019"],
+        ["SUMMARY:Whenever", "PRIORITY:9", "DUE;VALUE=DATE:20261019"],
+        ["SUMMARY:Unset", "PRIORITY:0", "DUE;VALUE=DATE:20261019"],
+        [
+          "SUMMARY:Long one",
+          "DTSTART;VALUE=DATE:20261001",
+          "DUE;VALUE=DATE:20261031",
+        ]
+      )
+    );
+
+    expect(
+      db.list(day, "days").map(({ name, priority }) => [name, priority])
+    ).toEqual([
+      ["Urgent-ish", 1],
+      ["Whenever", 4],
+      ["Unset", null],
+    ]);
+    expect(db.list(new Date(2026, 9, 1), "months")[0].name).toBe("Long one");
+  });
+
+  it("unfolds long lines", async () => {
+    const db = await openDB();
+    importICS(
+      db,
+      calendar(["SUMMARY:Water the", "  plants", "DUE;VALUE=DATE:20261019"])
+    );
+    expect(db.list(day, "days")[0].name).toBe("Water the plants");
+  });
+});
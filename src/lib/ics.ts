@@ -0,0 +1,269 @@
+import {
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isValid,
+} from "date-fns";
+import { DB, Period, PERIODS, Task } from "./DB";
+import { PRIORITIES, Priority } from "./priority";
+import { startOfPeriod } from "./utils";
+
+// iCalendar (RFC 5545) VTODO export and import, so tasks can be shared with
+// calendar and todo apps. Each task becomes an all-day VTODO that's due on
+// the last day of its list, e.g. a week's task is due that Saturday, with
+// an X-PLANNER-PERIOD property so the list survives a round trip.
+
+const PRODID = "-//Planner//Planner//EN";
+const UID_SUFFIX = "@planner";
+
+// Our P1-P4 onto iCalendar's 1 (highest) to 9 (lowest)
+const TO_ICS_PRIORITY: Record<Priority, number> = { 1: 1, 2: 3, 3: 5, 4: 7 };
+
+// The inverse. A value between two of ours counts as the more urgent one:
+// 1-2 is P1, 3-4 P2, 5-6 P3 and 7-9 P4. 0 means no priority.
+const fromICSPriority = (value: number): Priority | null => {
+  if (!Number.isInteger(value) || value < 1 || value > 9) return null;
+  return (
+    PRIORITIES.filter((priority) => TO_ICS_PRIORITY[priority] <= value).pop() ??
+    null
+  );
+};
+
+const lastDayOf = (date: Date, period: Period): Date => {
+  if (period === "weeks") {
+    return endOfWeek(date);
+  } else if (period === "months") {
+    return endOfMonth(date);
+  } else if (period === "year") {
+    return endOfYear(date);
+  } else {
+    return date;
+  }
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+
+// Lines longer than 75 octets are folded onto continuation lines that
+// start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const toICSDate = (date: Date) => format(date, "yyyyMMdd");
+
+export const exportICS = (db: DB, tasks: Task[] = db.list()): string => {
+  const tagsById = new Map(db.listTags().map((tag) => [tag.id, tag]));
+  const stamp = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+
+  const todos = tasks.map((task) => {
+    const tags = task.tagIds.flatMap((id) => tagsById.get(id)?.name ?? []);
+    const due = lastDayOf(task.date, task.period);
+    return [
+      "BEGIN:VTODO",
+      `UID:${task.id}${UID_SUFFIX}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeText(task.name)}`,
+      // DTSTART must come before DUE, so a day's task only has a DUE
+      ...(task.period !== "days"
+        ? [`DTSTART;VALUE=DATE:${toICSDate(task.date)}`]
+        : []),
+      `DUE;VALUE=DATE:${toICSDate(due)}`,
+      `STATUS:${task.complete ? "COMPLETED" : "NEEDS-ACTION"}`,
+      ...(task.complete ? ["PERCENT-COMPLETE:100"] : []),
+      ...(task.priority ? [`PRIORITY:${TO_ICS_PRIORITY[task.priority]}`] : []),
+      ...(task.notes ? [`DESCRIPTION:${escapeText(task.notes)}`] : []),
+      ...(task.url ? [`URL:${task.url}`] : []),
+      ...(tags.length > 0
+        ? [`CATEGORIES:${tags.map(escapeText).join(",")}`]
+        : []),
+      ...(task.parentId ? [`RELATED-TO:${task.parentId}${UID_SUFFIX}`] : []),
+      `X-PLANNER-PERIOD:${task.period}`,
+      "END:VTODO",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    ...todos.flat(),
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+type Property = { params: Record<string, string>; value: string };
+
+// Splits a file into components of the given type, each a map from property
+// name to its occurrences
+const parseComponents = (
+  text: string,
+  type: string
+): Map<string, Property[]>[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: Map<string, Property[]>[] = [];
+  let current: Map<string, Property[]> | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const match = /^([^:;]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (!match) continue;
+    const [, rawName, rawParams, value] = match;
+    const name = rawName.toUpperCase();
+
+    if (name === "BEGIN" && value.toUpperCase() === type) {
+      current = new Map();
+      depth = 0;
+    } else if (current && name === "BEGIN") {
+      // e.g. a VALARM inside the VTODO
+      depth++;
+    } else if (current && name === "END" && depth > 0) {
+      depth--;
+    } else if (current && name === "END" && value.toUpperCase() === type) {
+      components.push(current);
+      current = null;
+    } else if (current && depth === 0) {
+      const params = Object.fromEntries(
+        rawParams
+          .split(";")
+          .filter(Boolean)
+          .map((param) => {
+            const [key, ...rest] = param.split("=");
+            return [key.toUpperCase(), rest.join("=")];
+          })
+      );
+      current.set(name, [...(current.get(name) ?? []), { params, value }]);
+    }
+  }
+  return components;
+};
+
+// DATE (20261019) or DATE-TIME (20261019T090000, with Z for UTC) values
+const parseICSDate = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match.map(
+    (part) => part ?? ""
+  );
+  const args = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours || 0),
+    Number(minutes || 0),
+    Number(seconds || 0),
+  ] as const;
+  const date = utc ? new Date(Date.UTC(...args)) : new Date(...args);
+  return isValid(date) ? date : null;
+};
+
+// Without our own X-PLANNER-PERIOD, guess the list from how long the task
+// has between its start and due dates
+const guessPeriod = (start: Date | null, due: Date | null): Period => {
+  if (!start || !due) return "days";
+  const days = differenceInCalendarDays(due, start);
+  if (days >= 300) {
+    return "year";
+  } else if (days >= 27) {
+    return "months";
+  } else if (days >= 6) {
+    return "weeks";
+  } else {
+    return "days";
+  }
+};
+
+// Creates a task per VTODO as one undoable step. VTODOs that came from this
+// planner and are still in it are skipped rather than duplicated.
+export const importICS = (
+  db: DB,
+  text: string
+): { imported: number; skipped: number } => {
+  const todos = parseComponents(text, "VTODO");
+  const created = new Map<string, Task>();
+  let imported = 0;
+  let skipped = 0;
+
+  db.transaction("Import calendar", () => {
+    for (const todo of todos) {
+      const get = (name: string) => todo.get(name)?.[0]?.value ?? "";
+      const uid = get("UID");
+      const name = unescapeText(get("SUMMARY")).trim();
+      if (
+        !name ||
+        (uid.endsWith(UID_SUFFIX) && db.read(uid.slice(0, -UID_SUFFIX.length)))
+      ) {
+        skipped++;
+        continue;
+      }
+
+      const start = parseICSDate(get("DTSTART"));
+      const due = parseICSDate(get("DUE"));
+      const ownPeriod = get("X-PLANNER-PERIOD").toLowerCase();
+      const period = PERIODS.includes(ownPeriod as Period)
+        ? (ownPeriod as Period)
+        : guessPeriod(start, due);
+      const date = start ?? due ?? new Date();
+      const priority = fromICSPriority(Number(get("PRIORITY")));
+      const tagNames = (todo.get("CATEGORIES") ?? []).flatMap(({ value }) =>
+        value
+          .split(/(?<!\\),/)
+          .map((tag) => unescapeText(tag).trim())
+          .filter(Boolean)
+      );
+      const tagIds = db.ensureTags(tagNames).map(({ id }) => id);
+
+      // Keep subtasks under their parent when both are in the file and
+      // end up on the same list
+      const parent = created.get(get("RELATED-TO"));
+      const task =
+        parent &&
+        parent.period === period &&
+        differenceInCalendarDays(parent.date, startOfPeriod(date, period)) === 0
+          ? db.createSubtask(name, parent.id, tagIds, priority)
+          : db.create(name, date, period, tagIds, priority);
+      if (!task) continue;
+      imported++;
+      if (uid) created.set(uid, task);
+
+      const notes = unescapeText(get("DESCRIPTION"));
+      const url = get("URL");
+      if (notes || url) db.updateDetails(task.id, { notes, url });
+      if (get("STATUS").toUpperCase() === "COMPLETED") {
+        db.markComplete(task.id);
+      }
+    }
+  });
+  return { imported, skipped };
+};
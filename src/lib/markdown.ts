@@ -0,0 +1,65 @@
+import { Task } from "./DB";
+import { flattenTree } from "./tree";
+
+// A card's tasks as a GitHub-style checklist under a heading, subtasks
+// indented below their parent, e.g.
+//
+//   ## Oct 19
+//
+//   - [x] Write report
+//     - [ ] Send it
+export const toMarkdown = (
+  sections: { title: string; tasks: Task[] }[]
+): string =>
+  sections
+    .map(({ title, tasks }) =>
+      [
+        `## ${title}`,
+        "",
+        ...flattenTree(tasks).map(
+          ({ task, depth }) =>
+            `${"  ".repeat(depth)}- [${task.complete ? "x" : " "}] ${task.name}`
+        ),
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+
+export interface ChecklistItem {
+  name: string;
+  complete: boolean;
+  // 0 for a top level item, 1 for one nested under it and so on
+  depth: number;
+}
+
+const ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/;
+
+// Reads the list items out of pasted markdown, ignoring headings and other
+// text. Returns null when there's nothing list-like, including a single item
+// without a checkbox, which is more likely just a name.
+export const parseChecklist = (text: string): ChecklistItem[] | null => {
+  const items: ChecklistItem[] = [];
+  // Indentation of each open level, so both 2 and 4 space lists work
+  const indents: number[] = [];
+  let hasCheckbox = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = ITEM_PATTERN.exec(line);
+    const name = match?.[3].trim();
+    if (!match || !name) continue;
+
+    const indent = match[1].replace(/\t/g, "    ").length;
+    while (indents.length > 0 && indents[indents.length - 1] >= indent) {
+      indents.pop();
+    }
+    items.push({
+      name,
+      complete: match[2]?.toLowerCase() === "x",
+      depth: indents.length,
+    });
+    indents.push(indent);
+    hasCheckbox ||= match[2] !== undefined;
+  }
+
+  return items.length > 1 || (items.length === 1 && hasCheckbox) ? items : null;
+};
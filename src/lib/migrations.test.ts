@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { loadSQL, MemoryStorage, openDB } from "@/test/db";
+import {
+  getSchemaVersion,
+  LATEST_VERSION,
+  migrate,
+  SchemaVersionError,
+} from "./migrations";
+
+describe("migrate", () => {
+  it("brings a new database up to the latest version", async () => {
+    const SQL = await loadSQL();
+    const db = new SQL.Database();
+    expect(migrate(db)).toBe(true);
+    expect(getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(migrate(db)).toBe(false);
+  });
+
+  it("keeps tasks saved before versioning", async () => {
+    const SQL = await loadSQL();
+    const legacy = new SQL.Database();
+    legacy.run(`
+      CREATE TABLE task (
+        id TEXT UNIQUE,
+        name TEXT,
+        complete BOOLEAN,
+        sortOrder INTEGER DEFAULT 0,
+        period TEXT,
+        date TEXT);
+      INSERT INTO task VALUES
+        ('A', 'Old task', 0, 1, 'days', '2026-10-19T00:00:00.000Z');
+    `);
+
+    const db = await openDB(legacy.export());
+    expect(db.read("A")?.name).toBe("Old task");
+  });
+
+  it("refuses a newer version, keeping a backup of it", async () => {
+    const SQL = await loadSQL();
+    const newer = new SQL.Database();
+    newer.run(`PRAGMA user_version = ${LATEST_VERSION + 1}`);
+    const storage = new MemoryStorage();
+
+    await expect(openDB(newer.export(), storage)).rejects.toThrow(
+      SchemaVersionError
+    );
+    expect(storage.backups.has(`BACKUP_v${LATEST_VERSION + 1}`)).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+import { Database } from "sql.js";
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+// Ordered list of schema changes. Never edit or reorder an entry that has
+// shipped; append a new one with the next version number instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Create task table",
+    up: (db) => {
+      // Databases saved before versioning already have this table
+      db.run(`
+       CREATE TABLE IF NOT EXISTS task (
+         id TEXT UNIQUE,
+         name TEXT,
+         complete BOOLEAN,
+         sortOrder INTEGER DEFAULT 0,
+         period TEXT,
+         date TEXT);
+       `);
+    },
+  },
+  {
+    version: 2,
+    description: "Add recurring tasks",
+    up: (db) => {
+      db.run(`
+       CREATE TABLE recurrence (
+         id TEXT UNIQUE,
+         name TEXT,
+         period TEXT,
+         frequency TEXT,
+         interval INTEGER DEFAULT 1,
+         startDate TEXT,
+         endDate TEXT);
+       CREATE TABLE recurrence_skip (
+         recurrenceId TEXT,
+         date TEXT,
+         UNIQUE (recurrenceId, date));
+       ALTER TABLE task ADD COLUMN recurrenceId TEXT;
+       ALTER TABLE task ADD COLUMN occurrence TEXT;
+       `);
+    },
+  },
+  {
+    version: 3,
+    description: "Add subtasks",
+    up: (db) => {
+      db.run("ALTER TABLE task ADD COLUMN parentId TEXT;");
+    },
+  },
+  {
+    version: 4,
+    description: "Add task notes and links",
+    up: (db) => {
+      db.run(`
+       ALTER TABLE task ADD COLUMN notes TEXT;
+       ALTER TABLE task ADD COLUMN url TEXT;
+       `);
+    },
+  },
+  {
+    version: 5,
+    description: "Add tags",
+    up: (db) => {
+      db.run(`
+       CREATE TABLE tag (
+         id TEXT UNIQUE,
+         name TEXT UNIQUE COLLATE NOCASE,
+         color TEXT);
+       CREATE TABLE task_tag (
+         taskId TEXT,
+         tagId TEXT,
+         UNIQUE (taskId, tagId));
+       CREATE TABLE recurrence_tag (
+         recurrenceId TEXT,
+         tagId TEXT,
+         UNIQUE (recurrenceId, tagId));
+       `);
+    },
+  },
+  {
+    version: 6,
+    description: "Add task priority and per-card sort mode",
+    up: (db) => {
+      db.run(`
+       ALTER TABLE task ADD COLUMN priority INTEGER;
+       ALTER TABLE recurrence ADD COLUMN priority INTEGER;
+       CREATE TABLE list_sort (
+         period TEXT,
+         date TEXT,
+         mode TEXT,
+         UNIQUE (period, date));
+       `);
+    },
+  },
+  {
+    version: 7,
+    description: "Add full-text search index",
+    up: (db) => {
+      // An external content index over task, kept in step by triggers.
+      // sql.js is built with FTS4 but not FTS5.
+      db.run(`
+       CREATE VIRTUAL TABLE task_search USING fts4(
+         content="task",
+         name,
+         notes,
+         tokenize=unicode61);
+       CREATE TRIGGER task_search_before_delete BEFORE DELETE ON task BEGIN
+         DELETE FROM task_search WHERE docid = old.rowid;
+       END;
+       CREATE TRIGGER task_search_before_update BEFORE UPDATE ON task BEGIN
+         DELETE FROM task_search WHERE docid = old.rowid;
+       END;
+       CREATE TRIGGER task_search_after_update AFTER UPDATE ON task BEGIN
+         INSERT INTO task_search (docid, name, notes)
+         VALUES (new.rowid, new.name, new.notes);
+       END;
+       CREATE TRIGGER task_search_after_insert AFTER INSERT ON task BEGIN
+         INSERT INTO task_search (docid, name, notes)
+         VALUES (new.rowid, new.name, new.notes);
+       END;
+       INSERT INTO task_search (task_search) VALUES ('rebuild');
+       `);
+    },
+  },
+  {
+    version: 8,
+    description: "Track postponed tasks",
+    up: (db) => {
+      db.run(`
+       ALTER TABLE task ADD COLUMN postponed INTEGER DEFAULT 0;
+       ALTER TABLE task ADD COLUMN originalDate TEXT;
+       `);
+    },
+  },
+  {
+    version: 9,
+    description: "Add settings",
+    up: (db) => {
+      db.run(`
+       CREATE TABLE setting (
+         key TEXT UNIQUE,
+         value TEXT);
+       `);
+    },
+  },
+  {
+    version: 10,
+    description: "Track changes for sync",
+    up: (db) => {
+      // When each synced row last changed, and whether that change still
+      // has to be pushed. Deleted rows keep their entry as a tombstone.
+      db.run(`
+       CREATE TABLE sync_row (
+         tbl TEXT,
+         key TEXT,
+         updatedAt INTEGER,
+         pending INTEGER DEFAULT 1,
+         UNIQUE (tbl, key));
+       `);
+      const tables: [string, string[]][] = [
+        ["task", ["id"]],
+        ["recurrence", ["id"]],
+        ["recurrence_skip", ["recurrenceId", "date"]],
+        ["tag", ["id"]],
+        ["task_tag", ["taskId", "tagId"]],
+        ["recurrence_tag", ["recurrenceId", "tagId"]],
+        ["list_sort", ["period", "date"]],
+      ];
+      const now = "CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)";
+      for (const [table, key] of tables) {
+        const keyOf = (row: string) =>
+          `json_array(${key.map((column) => `${row}.${column}`).join(", ")})`;
+        const touch = (row: string) => `
+         INSERT INTO sync_row (tbl, key, updatedAt, pending)
+         VALUES ('${table}', ${keyOf(row)}, ${now}, 1)
+         ON CONFLICT (tbl, key)
+         DO UPDATE SET updatedAt = excluded.updatedAt, pending = 1;`;
+        db.run(`
+         CREATE TRIGGER sync_${table}_insert AFTER INSERT ON ${table} BEGIN
+           ${touch("new")}
+         END;
+         CREATE TRIGGER sync_${table}_update AFTER UPDATE ON ${table} BEGIN
+           ${touch("old")}
+           ${touch("new")}
+         END;
+         CREATE TRIGGER sync_${table}_delete AFTER DELETE ON ${table} BEGIN
+           ${touch("old")}
+         END;
+         INSERT INTO sync_row (tbl, key, updatedAt, pending)
+         SELECT '${table}', ${keyOf(table)}, ${now}, 1 FROM ${table};
+         `);
+      }
+    },
+  },
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1].version;
+
+export class SchemaVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(
+      `Saved data uses schema version ${version}, but this version of the app only supports up to ${LATEST_VERSION}. Please update the app.`
+    );
+    this.name = "SchemaVersionError";
+    this.version = version;
+  }
+}
+
+export const getSchemaVersion = (db: Database): number => {
+  const res = db.exec("PRAGMA user_version");
+  return (res[0]?.values[0]?.[0] as number) || 0;
+};
+
+// Brings the database up to LATEST_VERSION. Each migration runs in its own
+// transaction so a failure leaves the database at the last good version.
+// Returns true if any migration ran.
+export const migrate = (db: Database): boolean => {
+  const current = getSchemaVersion(db);
+  if (current > LATEST_VERSION) {
+    throw new SchemaVersionError(current);
+  }
+
+  const pending = migrations.filter(({ version }) => version > current);
+  for (const migration of pending) {
+    db.run("BEGIN");
+    try {
+      migration.up(db);
+      db.run(`PRAGMA user_version = ${migration.version}`);
+      db.run("COMMIT");
+    } catch (e) {
+      db.run("ROLLBACK");
+      throw e;
+    }
+  }
+  return pending.length > 0;
+};
@@ -0,0 +1,33 @@
+export const PRIORITIES = [1, 2, 3, 4] as const;
+
+// 1 is the most urgent. Tasks without a priority sort after all of these.
+export type Priority = (typeof PRIORITIES)[number];
+
+// How a card orders its tasks. "priority" groups by priority first, keeping
+// the manual drag order within each group.
+export type SortMode = "manual" | "priority";
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  1: "P1",
+  2: "P2",
+  3: "P3",
+  4: "P4",
+};
+
+// Spelled out in full so Tailwind finds the class names
+export const PRIORITY_CLASSES: Record<Priority, string> = {
+  1: "text-red-500",
+  2: "text-orange-500",
+  3: "text-blue-500",
+  4: "text-zinc-400",
+};
+
+// Array.prototype.sort is stable, so ties keep the order they came in
+export const sortByPriority = <T extends { priority: Priority | null }>(
+  tasks: T[]
+): T[] =>
+  [...tasks].sort(
+    (a, b) =>
+      (a.priority ?? PRIORITIES.length + 1) -
+      (b.priority ?? PRIORITIES.length + 1)
+  );
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { describeRecurrence, occursOn, Recurrence } from "./recurrence";
+
+const rule = (changes: Partial<Recurrence>): Recurrence => ({
+  id: "R",
+  name: "Repeats",
+  period: "days",
+  frequency: "daily",
+  interval: 1,
+  startDate: new Date(2026, 0, 1),
+  endDate: null,
+  priority: null,
+  tagIds: [],
+  ...changes,
+});
+
+describe("occursOn", () => {
+  it("repeats every N days from the start", () => {
+    const everyOther = rule({ interval: 2 });
+    expect(occursOn(everyOther, new Date(2026, 0, 3))).toBe(true);
+    expect(occursOn(everyOther, new Date(2026, 0, 4))).toBe(false);
+    expect(occursOn(everyOther, new Date(2025, 11, 30))).toBe(false);
+  });
+
+  it("stops after the end date", () => {
+    const ending = rule({ endDate: new Date(2026, 0, 10) });
+    expect(occursOn(ending, new Date(2026, 0, 10))).toBe(true);
+    expect(occursOn(ending, new Date(2026, 0, 11))).toBe(false);
+  });
+
+  it("only falls on weekdays for weekdays", () => {
+    const weekdays = rule({ frequency: "weekdays" });
+    expect(occursOn(weekdays, new Date(2026, 0, 2))).toBe(true);
+    expect(occursOn(weekdays, new Date(2026, 0, 3))).toBe(false);
+  });
+
+  it("falls on the last day of months shorter than the start's day", () => {
+    const monthly = rule({
+      frequency: "monthly",
+      startDate: new Date(2026, 0, 31),
+    });
+    expect(occursOn(monthly, new Date(2026, 1, 28))).toBe(true);
+    expect(occursOn(monthly, new Date(2026, 1, 27))).toBe(false);
+    expect(occursOn(monthly, new Date(2026, 2, 30))).toBe(false);
+    expect(occursOn(monthly, new Date(2026, 2, 31))).toBe(true);
+    expect(occursOn(monthly, new Date(2026, 3, 30))).toBe(true);
+  });
+
+  it("takes any day in a repeating week or month list", () => {
+    const weekly = rule({ period: "weeks", frequency: "weekly" });
+    expect(occursOn(weekly, new Date(2026, 0, 8))).toBe(true);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("names the day a rule falls on", () => {
+    expect(
+      describeRecurrence(
+        rule({ frequency: "monthly", startDate: new Date(2026, 0, 31) })
+      )
+    ).toBe("Every month on the 31st");
+    expect(describeRecurrence(rule({ interval: 3 }))).toBe("Every 3 days");
+  });
+});
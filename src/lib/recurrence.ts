@@ -0,0 +1,115 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  format,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  getMonth,
+  isWeekend,
+} from "date-fns";
+import { Period } from "./DB";
+import { Priority } from "./priority";
+import { startOfPeriod } from "./utils";
+
+export type Frequency = "daily" | "weekdays" | "weekly" | "monthly" | "yearly";
+
+export interface Recurrence {
+  id: string;
+  name: string;
+  period: Period;
+  frequency: Frequency;
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+  priority: Priority | null;
+  tagIds: string[];
+}
+
+// Which rules make sense for each list, e.g. a monthly list can repeat every
+// month or every year, but "weekdays" only means something for day lists.
+export const FREQUENCIES_BY_PERIOD: Record<Period, Frequency[]> = {
+  days: ["daily", "weekdays", "weekly", "monthly", "yearly"],
+  weeks: ["weekly"],
+  months: ["monthly", "yearly"],
+  year: ["yearly"],
+};
+
+// "weekdays" has no "every N" form
+export const hasInterval = (frequency: Frequency) => frequency !== "weekdays";
+
+export const occursOn = (recurrence: Recurrence, day: Date): boolean => {
+  const { period, frequency, interval, startDate, endDate } = recurrence;
+  const date = startOfPeriod(day, period);
+  if (date < startDate || (endDate && date > endDate)) {
+    return false;
+  }
+
+  if (frequency === "daily") {
+    return differenceInCalendarDays(date, startDate) % interval === 0;
+  } else if (frequency === "weekdays") {
+    return !isWeekend(date);
+  } else if (frequency === "weekly") {
+    return (
+      (period !== "days" || getDay(date) === getDay(startDate)) &&
+      differenceInCalendarWeeks(date, startDate) % interval === 0
+    );
+  } else if (frequency === "monthly") {
+    return (
+      // Starting on the 29th to 31st, it falls on the last day of shorter
+      // months
+      (period !== "days" ||
+        getDate(date) === Math.min(getDate(startDate), getDaysInMonth(date))) &&
+      differenceInCalendarMonths(date, startDate) % interval === 0
+    );
+  } else if (frequency === "yearly") {
+    return (
+      (period === "year" || getMonth(date) === getMonth(startDate)) &&
+      (period !== "days" || getDate(date) === getDate(startDate)) &&
+      differenceInCalendarYears(date, startDate) % interval === 0
+    );
+  } else {
+    return false;
+  }
+};
+
+const UNITS: Record<Frequency, string> = {
+  daily: "day",
+  weekdays: "weekday",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+export const describeRecurrence = ({
+  period,
+  frequency,
+  interval,
+  startDate,
+}: Pick<
+  Recurrence,
+  "period" | "frequency" | "interval" | "startDate"
+>): string => {
+  const every =
+    interval > 1
+      ? `Every ${interval} ${UNITS[frequency]}s`
+      : `Every ${UNITS[frequency]}`;
+
+  if (frequency === "weekdays") {
+    return "Every weekday";
+  } else if (frequency === "weekly" && period === "days") {
+    return interval > 1
+      ? `${every} on ${format(startDate, "EEEE")}`
+      : `Every ${format(startDate, "EEEE")}`;
+  } else if (frequency === "monthly" && period === "days") {
+    return `${every} on the ${format(startDate, "do")}`;
+  } else if (frequency === "yearly" && period === "days") {
+    return `${every} on ${format(startDate, "MMM d")}`;
+  } else if (frequency === "yearly" && period === "months") {
+    return `${every} in ${format(startDate, "MMMM")}`;
+  } else {
+    return every;
+  }
+};
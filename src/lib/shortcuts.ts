@@ -0,0 +1,85 @@
+import { addMonths, addWeeks, addYears } from "date-fns";
+import { Period } from "./DB";
+import { addPeriods, isSamePeriod, visibleDates } from "./utils";
+
+// Keys App listens for. The cheat sheet and the command palette list them
+// from here, so what they say matches what the keys do.
+
+export interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+const MOD = /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘" : "Ctrl";
+
+export const SHORTCUTS = {
+  palette: { keys: [MOD, "K"], description: "Open the command palette" },
+  newTask: { keys: ["N"], description: "Add a task to the selected card" },
+  nextCard: { keys: ["J"], description: "Select the next card" },
+  previousCard: { keys: ["K"], description: "Select the previous card" },
+  today: { keys: ["T"], description: "Go to today" },
+  previous: { keys: ["["], description: "Go to the previous page" },
+  next: { keys: ["]"], description: "Go to the next page" },
+  search: { keys: ["/"], description: "Search tasks" },
+  undo: { keys: [MOD, "Z"], description: "Undo" },
+  redo: { keys: [MOD, "Shift", "Z"], description: "Redo" },
+  help: { keys: ["?"], description: "Show keyboard shortcuts" },
+} satisfies Record<string, Shortcut>;
+
+// As the keys would be written on this platform, e.g. "⌘K" or "Ctrl+K"
+export const formatKeys = ({ keys }: Shortcut) =>
+  keys.join(MOD === "⌘" ? "" : "+");
+
+// What Previous and Next flip to: a page is a week of days, a month of
+// weeks, or a year of months or of the year itself
+export const previousPage = (day: Date, period: Period): Date =>
+  period === "days"
+    ? addWeeks(day, -1)
+    : period === "weeks"
+    ? addMonths(day, -1)
+    : addYears(day, -1);
+
+export const nextPage = (day: Date, period: Period): Date =>
+  period === "days"
+    ? addWeeks(day, 1)
+    : period === "weeks"
+    ? addMonths(day, 1)
+    : addYears(day, 1);
+
+// The card keyboard commands act on: the one holding the picked date while
+// it's on the page, otherwise the current period's, otherwise the first
+export const selectedCard = (
+  day: Date,
+  period: Period,
+  picked: Date | null
+): Date => {
+  const dates = visibleDates(day, period);
+  const end = addPeriods(dates[dates.length - 1], period, 1);
+  const holding =
+    picked && picked >= dates[0] && picked < end
+      ? [...dates].reverse().find((date) => date <= picked)
+      : undefined;
+  return (
+    holding ?? dates.find((date) => isSamePeriod(date, period)) ?? dates[0]
+  );
+};
+
+// The card J and K move to, which can be on the next or previous page
+export const stepCard = (
+  day: Date,
+  period: Period,
+  picked: Date | null,
+  step: 1 | -1
+): { day: Date; card: Date } => {
+  const dates = visibleDates(day, period);
+  const card = selectedCard(day, period, picked);
+  const next = dates[dates.findIndex((date) => +date === +card) + step];
+  if (next) return { day, card: next };
+
+  const page = step > 0 ? nextPage(day, period) : previousPage(day, period);
+  const pageDates = visibleDates(page, period);
+  return {
+    day: page,
+    card: step > 0 ? pageDates[0] : pageDates[pageDates.length - 1],
+  };
+};
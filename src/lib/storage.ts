@@ -0,0 +1,88 @@
+// Where the SQLite file lives between sessions. DB only talks to this
+// interface so the backend can be swapped without touching queries.
+export interface StorageBackend {
+  load(): Promise<Uint8Array | null>;
+  save(data: Uint8Array): Promise<void>;
+  backup(name: string, data: Uint8Array): Promise<void>;
+  // Lets go of the file once the last save is written
+  close(): Promise<void>;
+}
+
+const IDB_NAME = "planner";
+const IDB_STORE = "files";
+
+const openIndexedDB = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBStorage implements StorageBackend {
+  key: string;
+  connection: Promise<IDBDatabase> | null = null;
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    if (!this.connection) {
+      this.connection = openIndexedDB();
+    }
+    const idb = await this.connection;
+    return idb.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  async load(): Promise<Uint8Array | null> {
+    const value = await promisify((await this.store("readonly")).get(this.key));
+    if (value instanceof Uint8Array) {
+      return value;
+    }
+    return this.migrateFromLocalStorage();
+  }
+
+  async save(data: Uint8Array) {
+    await promisify((await this.store("readwrite")).put(data, this.key));
+  }
+
+  async backup(name: string, data: Uint8Array) {
+    await promisify(
+      (await this.store("readwrite")).put(data, `${this.key}_${name}`)
+    );
+  }
+
+  // Deletes the file, but not its backups
+  async remove() {
+    await promisify((await this.store("readwrite")).delete(this.key));
+  }
+
+  async close() {
+    if (!this.connection) return;
+    const idb = await this.connection;
+    this.connection = null;
+    // Closing waits for transactions in flight
+    idb.close();
+  }
+
+  // Older builds kept the file in localStorage as a JSON array of bytes.
+  // Copy it over once, and only drop the old key after the write succeeds.
+  private async migrateFromLocalStorage(): Promise<Uint8Array | null> {
+    const savedData = localStorage.getItem(this.key);
+    if (!savedData) return null;
+
+    const data = new Uint8Array(JSON.parse(savedData));
+    await this.save(data);
+    localStorage.removeItem(this.key);
+    return data;
+  }
+}
@@ -0,0 +1,143 @@
+import { customAlphabet } from "nanoid";
+import {
+  MAX_BATCH,
+  PullResponse,
+  PushResponse,
+  SyncChange,
+} from "../../server/protocol";
+import { DB } from "./DB";
+import { isWriter } from "./tabs";
+
+// Optional sync through the server in functions/api/sync.ts. Devices that
+// share a sync code share a planner: each pushes the rows it changed and
+// pulls everyone else's, and the latest change to a row wins.
+
+export const SYNC_CODE = "sync.code";
+export const SYNC_LAST_SYNCED = "sync.lastSynced";
+const SYNC_CURSOR = "sync.cursor";
+
+// The app's own origin, unless the server lives elsewhere
+const SYNC_URL = import.meta.env.VITE_SYNC_URL ?? "/api/sync";
+// How long after an edit to push it, so a burst of edits goes together
+const PUSH_DELAY_MS = 2000;
+// How often to check for changes from other devices
+const PULL_INTERVAL_MS = 60 * 1000;
+
+export const generateSyncCode = customAlphabet(
+  "23456789ABCDEFGHJKLMNPQRSTUVWXYZ",
+  24
+);
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
+
+const request = async <T>(
+  code: string,
+  init: RequestInit & { query?: string } = {}
+): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(`${SYNC_URL}${init.query ?? ""}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${code}`,
+        "Content-Type": "application/json",
+      },
+    });
+  } catch {
+    throw new SyncError("Couldn't reach the sync server.");
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new SyncError(body?.error ?? `Sync failed (${res.status}).`);
+  }
+  return body as T;
+};
+
+// Only one sync per database at a time; a second call joins the first
+const running = new WeakMap<DB, Promise<{ pushed: number; pulled: number }>>();
+
+export const syncNow = (
+  db: DB
+): Promise<{ pushed: number; pulled: number }> => {
+  const current = running.get(db);
+  if (current) return current;
+
+  const run = async () => {
+    const code = db.getSetting(SYNC_CODE);
+    if (!code) throw new SyncError("Sync isn't set up.");
+
+    let pushed = 0;
+    for (;;) {
+      const changes: SyncChange[] = db.pendingChanges(MAX_BATCH);
+      if (changes.length === 0) break;
+      await request<PushResponse>(code, {
+        method: "POST",
+        body: JSON.stringify({ changes }),
+      });
+      // Ones the server turned down lost to a newer change, which the pull
+      // brings down
+      db.markSynced(changes);
+      pushed += changes.length;
+    }
+
+    let pulled = 0;
+    for (;;) {
+      const since = Number(db.getSetting(SYNC_CURSOR) ?? 0);
+      const res = await request<PullResponse>(code, {
+        query: `?since=${since}`,
+      });
+      pulled += db.applyChanges(res.changes);
+      db.setSetting(SYNC_CURSOR, String(res.cursor));
+      if (!res.more) break;
+    }
+
+    db.setSetting(SYNC_LAST_SYNCED, new Date().toISOString());
+    return { pushed, pulled };
+  };
+
+  const promise = run().finally(() => running.delete(db));
+  running.set(db, promise);
+  return promise;
+};
+
+// Switches to a different planner on the server, or turns sync off with
+// null. Everything here is pushed again under the new code.
+export const setSyncCode = (db: DB, code: string | null) => {
+  db.setSetting(SYNC_CODE, code ?? "");
+  db.setSetting(SYNC_CURSOR, "0");
+  db.setSetting(SYNC_LAST_SYNCED, "");
+  db.resetSync();
+};
+
+// Syncs in the background while a code is set: soon after each edit, every
+// so often, and when the device comes back online. With several tabs open,
+// only the one writing the file does. Returns a function that stops it.
+export const startSync = (db: DB): (() => void) => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  const run = () => {
+    if (!db.getSetting(SYNC_CODE) || !isWriter(db)) return;
+    syncNow(db).catch(console.error);
+  };
+  const onChange = () => {
+    if (timeout) clearTimeout(timeout);
+    // Pulled changes notify too, but leave nothing to push
+    if (db.pendingChanges(1).length === 0) return;
+    timeout = setTimeout(run, PUSH_DELAY_MS);
+  };
+
+  const unsubscribe = db.subscribe(onChange);
+  const interval = setInterval(run, PULL_INTERVAL_MS);
+  window.addEventListener("online", run);
+  run();
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    unsubscribe();
+    clearInterval(interval);
+    window.removeEventListener("online", run);
+  };
+};
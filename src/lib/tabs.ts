@@ -0,0 +1,239 @@
+import { nanoid } from "nanoid";
+import type { SyncChange } from "../../server/protocol";
+import type { DB } from "./DB";
+import { StorageBackend } from "./storage";
+
+// Every open tab has its own copy of the database in memory. So they don't
+// save over each other, one tab at a time holds a Web Lock and is the only
+// one that writes the file. Each tab sends the changes it makes to the
+// others over a BroadcastChannel, and they take them in the way a sync pull
+// is: the latest change to a row wins. Each file has a channel and lock of
+// its own, named after it.
+
+// How long a new tab waits for the writer's copy before reading the file
+const SNAPSHOT_TIMEOUT_MS = 500;
+
+const lockName = (name: string) => `planner-writer:${name}`;
+
+type TabMessage =
+  | {
+      type: "changes";
+      local: SyncChange[];
+      applied: SyncChange[];
+      settings: Record<string, string>;
+    }
+  | { type: "restore"; data: Uint8Array }
+  | { type: "request"; id: string }
+  | { type: "snapshot"; id: string; data: Uint8Array };
+
+// The writer may have changes it hasn't saved yet, so a new tab asks it for
+// a copy first
+const requestSnapshot = (name: string): Promise<Uint8Array | null> =>
+  new Promise((resolve) => {
+    const channel = new BroadcastChannel(name);
+    const id = nanoid();
+    const done = (data: Uint8Array | null) => {
+      clearTimeout(timeout);
+      channel.close();
+      resolve(data);
+    };
+    const timeout = setTimeout(() => done(null), SNAPSHOT_TIMEOUT_MS);
+    channel.onmessage = ({ data: message }: MessageEvent<TabMessage>) => {
+      if (message.type === "snapshot" && message.id === id) done(message.data);
+    };
+    const request: TabMessage = { type: "request", id };
+    channel.postMessage(request);
+  });
+
+// Passes saves through to another backend only while this tab is the writer.
+// Until then it keeps the latest one, to write if the writer closes first.
+export class TabStorage implements StorageBackend {
+  inner: StorageBackend;
+  channel: string;
+  lock: string;
+  writer = false;
+  unsaved: Uint8Array | null = null;
+  lastSave: Promise<void> = Promise.resolve();
+  // Opened before loading, so other tabs' changes made while this one loads
+  // wait in missed until connectTabs takes them in
+  broadcast: BroadcastChannel | null = null;
+  missed: TabMessage[] = [];
+  // Lets go of the lock, or stops waiting for it
+  private release = new AbortController();
+  // Called when this tab becomes the writer
+  private onWriter = new Set<() => void>();
+
+  constructor(inner: StorageBackend, name: string) {
+    this.inner = inner;
+    this.channel = `planner:${name}`;
+    this.lock = lockName(name);
+  }
+
+  async load(): Promise<Uint8Array | null> {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.broadcast = new BroadcastChannel(this.channel);
+      this.broadcast.onmessage = ({ data }: MessageEvent<TabMessage>) => {
+        if (data.type === "changes" || data.type === "restore") {
+          this.missed.push(data);
+        }
+      };
+    }
+    if (!navigator.locks || !this.broadcast) {
+      this.writer = true;
+      return this.inner.load();
+    }
+
+    const available = await new Promise<boolean>((resolve) => {
+      navigator.locks.request(this.lock, { ifAvailable: true }, (lock) => {
+        resolve(lock !== null);
+        return lock ? this.write() : undefined;
+      });
+    });
+    if (!available) {
+      navigator.locks
+        .request(this.lock, { signal: this.release.signal }, () => this.write())
+        .catch(() => {});
+      const data = await requestSnapshot(this.channel);
+      if (data) return data;
+    }
+    return this.inner.load();
+  }
+
+  async save(data: Uint8Array) {
+    if (!this.writer) {
+      this.unsaved = data;
+      return;
+    }
+    this.lastSave = this.inner.save(data);
+    await this.lastSave;
+  }
+
+  backup(name: string, data: Uint8Array) {
+    return this.inner.backup(name, data);
+  }
+
+  async close() {
+    await this.lastSave.catch(() => {});
+    this.writer = false;
+    this.release.abort();
+    this.broadcast?.close();
+    await this.inner.close();
+  }
+
+  // Calls back each time this tab becomes the writer. Returns a function
+  // that stops it.
+  subscribeWriter(listener: () => void): () => void {
+    this.onWriter.add(listener);
+    return () => this.onWriter.delete(listener);
+  }
+
+  // Holds the lock until the tab closes, or the file does
+  private write(): Promise<void> {
+    this.writer = true;
+    if (this.unsaved) {
+      this.save(this.unsaved).catch(console.error);
+      this.unsaved = null;
+    }
+    this.onWriter.forEach((listener) => listener());
+    const { signal } = this.release;
+    return new Promise((resolve) => {
+      if (signal.aborted) resolve();
+      signal.addEventListener("abort", () => resolve());
+    });
+  }
+}
+
+// Runs work holding a file's lock, so no other tab starts writing it
+// meanwhile. Tells it whether a tab has the file open: the writer holds the
+// lock, and every other tab waits for it.
+export const withFileLock = <T>(
+  name: string,
+  work: (open: boolean) => Promise<T>
+): Promise<T> => {
+  if (!navigator.locks) return work(false);
+  const lock = lockName(name);
+  return navigator.locks.request(lock, { ifAvailable: true }, async (held) => {
+    const { pending = [] } = await navigator.locks.query();
+    return work(!held || pending.some((request) => request.name === lock));
+  });
+};
+
+// The writer also does the background work done once for all tabs
+export const isWriter = (db: DB) =>
+  !(db.storage instanceof TabStorage) || db.storage.writer;
+
+// Runs the work now if this tab is the writer, and again whenever it takes
+// over from one that closed. Returns a function that stops it.
+export const whileWriter = (db: DB, work: () => void): (() => void) => {
+  if (isWriter(db)) work();
+  return db.storage instanceof TabStorage
+    ? db.storage.subscribeWriter(work)
+    : () => {};
+};
+
+// Sends this tab's changes to the others and takes in theirs. Returns a
+// function that stops it.
+export const connectTabs = (db: DB): (() => void) => {
+  if (!(db.storage instanceof TabStorage) || !db.storage.broadcast) {
+    return () => {};
+  }
+
+  const channel = db.storage.broadcast;
+  const post = (message: TabMessage) => channel.postMessage(message);
+  // Set while taking in another tab's changes, so they aren't sent back
+  let receiving = false;
+
+  const unsubscribe = db.subscribeChanges(
+    ({ local, applied, settings, restored }) => {
+      if (receiving) return;
+      if (restored) {
+        post({ type: "restore", data: db.export() });
+      } else if (
+        local.length > 0 ||
+        applied.length > 0 ||
+        Object.keys(settings).length > 0
+      ) {
+        post({ type: "changes", local, applied, settings });
+      }
+    }
+  );
+
+  const receive = (message: TabMessage) => {
+    if (message.type === "request") {
+      if (isWriter(db)) {
+        post({ type: "snapshot", id: message.id, data: db.export() });
+      }
+      return;
+    }
+    if (message.type === "snapshot") return;
+
+    receiving = true;
+    try {
+      if (message.type === "restore") {
+        db.restore(message.data);
+      } else {
+        // Still pending: whichever tab syncs pushes them
+        db.applyChanges(message.local, true);
+        db.applyChanges(message.applied);
+        for (const [key, value] of Object.entries(message.settings)) {
+          db.setSetting(key, value);
+        }
+      }
+    } catch (e) {
+      console.error(e);
+    } finally {
+      receiving = false;
+    }
+  };
+
+  // Taken in again if they're already in the copy this tab loaded, but the
+  // latest change to a row still wins
+  db.storage.missed.splice(0).forEach(receive);
+  channel.onmessage = ({ data }: MessageEvent<TabMessage>) => receive(data);
+
+  // The channel is the storage's, and closes with it
+  return () => {
+    unsubscribe();
+    channel.onmessage = null;
+  };
+};
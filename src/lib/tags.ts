@@ -0,0 +1,57 @@
+export const TAG_COLORS = [
+  "zinc",
+  "red",
+  "orange",
+  "amber",
+  "green",
+  "teal",
+  "blue",
+  "indigo",
+  "purple",
+  "pink",
+] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+// Spelled out in full so Tailwind finds the class names
+export const TAG_CHIP_CLASSES: Record<TagColor, string> = {
+  zinc: "bg-zinc-100 text-zinc-700",
+  red: "bg-red-100 text-red-700",
+  orange: "bg-orange-100 text-orange-700",
+  amber: "bg-amber-100 text-amber-700",
+  green: "bg-green-100 text-green-700",
+  teal: "bg-teal-100 text-teal-700",
+  blue: "bg-blue-100 text-blue-700",
+  indigo: "bg-indigo-100 text-indigo-700",
+  purple: "bg-purple-100 text-purple-700",
+  pink: "bg-pink-100 text-pink-700",
+};
+
+export const TAG_SWATCH_CLASSES: Record<TagColor, string> = {
+  zinc: "bg-zinc-500",
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  amber: "bg-amber-500",
+  green: "bg-green-500",
+  teal: "bg-teal-500",
+  blue: "bg-blue-500",
+  indigo: "bg-indigo-500",
+  purple: "bg-purple-500",
+  pink: "bg-pink-500",
+};
+
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+// Pulls "#tag" words out of what was typed into a task name, e.g.
+// "Buy milk #errands" -> { name: "Buy milk", tags: ["errands"] }
+export const parseTags = (input: string): { name: string; tags: string[] } => {
+  const tags = Array.from(input.matchAll(TAG_PATTERN), ([, , tag]) => tag);
+  const name = input.replace(TAG_PATTERN, "$1").replace(/\s+/g, " ").trim();
+  return { name, tags: Array.from(new Set(tags)) };
+};
@@ -0,0 +1,49 @@
+import { ReactElement } from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { openDB } from "@/test/db";
+import { toastWithUndo } from "./toast";
+
+type Toast = { action: ReactElement<{ onClick(): void }> };
+
+const { toast, dismiss } = vi.hoisted(() => {
+  const dismiss = vi.fn();
+  const toast = vi.fn<(props: Toast) => { dismiss: () => void }>(() => ({
+    dismiss,
+  }));
+  return { toast, dismiss };
+});
+vi.mock("@/hooks/use-toast", () => ({ toast }));
+
+const clickUndo = () => toast.mock.calls[0][0].action.props.onClick();
+
+const day = new Date(2026, 9, 19);
+
+describe("toastWithUndo", () => {
+  beforeEach(() => {
+    toast.mockClear();
+    dismiss.mockClear();
+  });
+
+  it("undoes the change it announced", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.delete(task.id);
+    toastWithUndo(db, "Task deleted");
+
+    clickUndo();
+    expect(db.read(task.id)).not.toBeNull();
+  });
+
+  it("goes once something else changes", async () => {
+    const db = await openDB();
+    const task = db.create("Water plants", day, "days")!;
+    db.delete(task.id);
+    toastWithUndo(db, "Task deleted");
+    const other = db.create("Feed the cat", day, "days")!;
+
+    expect(dismiss).toHaveBeenCalled();
+    clickUndo();
+    expect(db.read(task.id)).toBeNull();
+    expect(db.read(other.id)).not.toBeNull();
+  });
+});
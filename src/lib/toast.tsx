@@ -0,0 +1,43 @@
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { DB, Task } from "./DB";
+
+// Confirmation for destructive actions: rather than asking first, do it and
+// offer a way back. Undo reverses the latest change, so once anything else
+// changes, here or elsewhere, it would undo the wrong thing and the toast
+// goes.
+export const toastWithUndo = (db: DB, title: string, description?: string) => {
+  let stale = false;
+  const { dismiss } = toast({
+    title,
+    description,
+    action: (
+      <ToastAction
+        altText="Undo"
+        onClick={() => {
+          if (!stale) db.undo();
+        }}
+      >
+        Undo
+      </ToastAction>
+    ),
+  });
+  const unsubscribe = db.subscribeChanges(({ local, applied, restored }) => {
+    if (local.length === 0 && applied.length === 0 && !restored) return;
+    stale = true;
+    unsubscribe();
+    dismiss();
+  });
+};
+
+// Summary of an automatic rollover, so tasks don't move without a trace
+export const toastRolledOver = (db: DB, moved: Task[]) => {
+  if (moved.length === 0) return;
+  toastWithUndo(
+    db,
+    `Carried over ${moved.length} unfinished ${
+      moved.length === 1 ? "task" : "tasks"
+    }`,
+    moved.map(({ name }) => name).join(", ")
+  );
+};
@@ -0,0 +1,63 @@
+import { Task } from "./DB";
+
+export interface TreeItem {
+  task: Task;
+  depth: number;
+  // Levels of subtasks below this one; 0 for a leaf
+  height: number;
+  ancestorIds: string[];
+  hasChildren: boolean;
+  // Some, but not all, of the work under an unfinished task is done
+  partiallyComplete: boolean;
+}
+
+// Orders a card's tasks depth first so subtasks follow their parent, siblings
+// keeping their sortOrder. A task whose parent isn't on the list (e.g. it was
+// moved to another day) is shown at the top level. Subtasks of collapsed
+// tasks are left out.
+export const flattenTree = (
+  tasks: Task[],
+  collapsed: Set<string> = new Set()
+): TreeItem[] => {
+  const ids = new Set(tasks.map(({ id }) => id));
+  const children = new Map<string | null, Task[]>();
+  for (const task of tasks) {
+    const parentId =
+      task.parentId && ids.has(task.parentId) ? task.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), task]);
+  }
+
+  const items: TreeItem[] = [];
+  const visit = (
+    task: Task,
+    ancestorIds: string[],
+    visible: boolean
+  ): { height: number; completed: number } => {
+    const item: TreeItem = {
+      task,
+      depth: ancestorIds.length,
+      height: 0,
+      ancestorIds,
+      hasChildren: children.has(task.id),
+      partiallyComplete: false,
+    };
+    if (visible) items.push(item);
+
+    let completed = 0;
+    for (const child of children.get(task.id) ?? []) {
+      const stats = visit(
+        child,
+        [...ancestorIds, task.id],
+        visible && !collapsed.has(task.id)
+      );
+      item.height = Math.max(item.height, stats.height + 1);
+      completed += stats.completed + (child.complete ? 1 : 0);
+    }
+    item.partiallyComplete = !task.complete && completed > 0;
+    return { height: item.height, completed };
+  };
+  for (const task of children.get(null) ?? []) {
+    visit(task, [], true);
+  }
+  return items;
+};
@@ -2,6 +2,13 @@ import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { Period } from "./DB";
 import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  endOfMonth,
+  format,
   isSameDay,
   isSameMonth,
   isSameWeek,
@@ -30,6 +37,20 @@ export function startOfPeriod(date: Date, period: Period): Date {
   }
 }
 
+export function addPeriods(date: Date, period: Period, amount: number): Date {
+  if (period === "days") {
+    return addDays(date, amount);
+  } else if (period === "weeks") {
+    return addWeeks(date, amount);
+  } else if (period === "months") {
+    return addMonths(date, amount);
+  } else if (period === "year") {
+    return addYears(date, amount);
+  } else {
+    return date;
+  }
+}
+
 export const isSamePeriod = (date: Date, period: Period): boolean => {
   if (period === "days") {
     return isSameDay(date, new Date());
@@ -43,3 +64,38 @@ export const isSamePeriod = (date: Date, period: Period): boolean => {
     return false;
   }
 };
+
+// The cards shown for a day: its week's days, its month's weeks, its year's
+// months, or the year itself
+export const visibleDates = (day: Date, period: Period): Date[] => {
+  if (period === "days") {
+    const startOfTheWeek = startOfWeek(day, { weekStartsOn: 0 });
+    return Array.from({ length: 7 }, (_, i) => addDays(startOfTheWeek, i));
+  } else if (period === "weeks") {
+    const startMonth = startOfMonth(day);
+    const endMonth = endOfMonth(day);
+    const numWeeks = differenceInCalendarWeeks(endMonth, startMonth) + 1;
+    return Array.from({ length: numWeeks }, (_, i) => addWeeks(startMonth, i));
+  } else if (period === "months") {
+    const startOfYearDate = startOfYear(day);
+    return Array.from({ length: 12 }, (_, i) => addMonths(startOfYearDate, i));
+  } else if (period === "year") {
+    return [startOfYear(day)];
+  } else {
+    return [];
+  }
+};
+
+export const describeList = (date: Date, period: Period): string => {
+  if (period === "days") {
+    return format(date, "EEE, MMM d, yyyy");
+  } else if (period === "weeks") {
+    return `Week of ${format(date, "MMM d, yyyy")}`;
+  } else if (period === "months") {
+    return format(date, "MMMM yyyy");
+  } else if (period === "year") {
+    return format(date, "yyyy");
+  } else {
+    return "Invalid Date";
+  }
+};
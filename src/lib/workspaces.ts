@@ -0,0 +1,101 @@
+import { customAlphabet } from "nanoid";
+import { IndexedDBStorage } from "./storage";
+import { withFileLock } from "./tabs";
+
+// Separate planners, e.g. one for work and one for home. Each has a
+// database file of its own, with its own settings and sync code, so a
+// workspace for a side project can be shared without sharing the rest. The
+// list of them lives in localStorage, outside any one file.
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+const WORKSPACES_KEY = "planner.workspaces";
+const CURRENT_KEY = "planner.workspace";
+const DB_KEY = "PLANNER_SQLITE";
+
+// The planner from before there were workspaces, which keeps its file
+export const DEFAULT_WORKSPACE: Workspace = { id: "default", name: "Planner" };
+
+const generateId = customAlphabet("0123456789ABCDEFGHJKMNPQRSTVWXYZ", 10);
+
+export const storageKey = (id: string) =>
+  id === DEFAULT_WORKSPACE.id ? DB_KEY : `${DB_KEY}:${id}`;
+
+export const listWorkspaces = (): Workspace[] => {
+  try {
+    const workspaces = JSON.parse(localStorage.getItem(WORKSPACES_KEY) ?? "");
+    if (Array.isArray(workspaces) && workspaces.length > 0) {
+      return workspaces;
+    }
+  } catch {
+    // Missing or unreadable; start over with the one there always was
+  }
+  return [DEFAULT_WORKSPACE];
+};
+
+const saveWorkspaces = (workspaces: Workspace[]) => {
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+};
+
+// The one open last, or the first if that's gone
+export const currentWorkspace = (): Workspace => {
+  const workspaces = listWorkspaces();
+  const id = localStorage.getItem(CURRENT_KEY);
+  return workspaces.find((workspace) => workspace.id === id) ?? workspaces[0];
+};
+
+export const setCurrentWorkspace = (id: string) => {
+  localStorage.setItem(CURRENT_KEY, id);
+};
+
+// Its file is made the first time it's opened
+export const createWorkspace = (name: string): Workspace => {
+  const workspace = { id: generateId(), name };
+  saveWorkspaces([...listWorkspaces(), workspace]);
+  return workspace;
+};
+
+export const renameWorkspace = (id: string, name: string) => {
+  saveWorkspaces(
+    listWorkspaces().map((workspace) =>
+      workspace.id === id ? { ...workspace, name } : workspace
+    )
+  );
+};
+
+// Deletes a workspace that isn't open, here or in another tab, file and
+// all. Returns a function that puts it back.
+export const deleteWorkspace = async (
+  id: string
+): Promise<() => Promise<void>> => {
+  const workspaces = listWorkspaces();
+  const index = workspaces.findIndex((workspace) => workspace.id === id);
+  if (index === -1 || id === currentWorkspace().id) {
+    throw new Error("Only another workspace can be deleted.");
+  }
+
+  const storage = new IndexedDBStorage(storageKey(id));
+  const data = await withFileLock(storageKey(id), async (open) => {
+    if (open) {
+      throw new Error("It's open in another tab. Close it there first.");
+    }
+    const data = await storage.load();
+    await storage.remove();
+    saveWorkspaces(workspaces.filter((workspace) => workspace.id !== id));
+    return data;
+  });
+  await storage.close();
+
+  return async () => {
+    const restored = listWorkspaces();
+    restored.splice(index, 0, workspaces[index]);
+    saveWorkspaces(restored);
+    if (data) {
+      await storage.save(data);
+      await storage.close();
+    }
+  };
+};
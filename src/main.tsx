@@ -3,10 +3,12 @@ import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
 import { Toaster } from "./components/ui/toaster.tsx";
+import UpdatePrompt from "./components/UpdatePrompt.tsx";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
     <Toaster />
+    <UpdatePrompt />
   </StrictMode>
 );
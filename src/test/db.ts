@@ -0,0 +1,40 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import initSqlJs from "sql.js";
+import { DB } from "@/lib/DB";
+import { StorageBackend } from "@/lib/storage";
+
+// Helpers for tests that need a real database
+
+// Keeps the file in memory, in place of IndexedDB
+export class MemoryStorage implements StorageBackend {
+  data: Uint8Array | null = null;
+  backups = new Map<string, Uint8Array>();
+
+  async load() {
+    return this.data;
+  }
+
+  async save(data: Uint8Array) {
+    this.data = data;
+  }
+
+  async backup(name: string, data: Uint8Array) {
+    this.backups.set(name, data);
+  }
+
+  async close() {}
+}
+
+// The wasm is read from node_modules, as there's no server to fetch it from
+export const loadSQL = () =>
+  initSqlJs({
+    wasmBinary: readFileSync(
+      createRequire(import.meta.url).resolve("sql.js/dist/sql-wasm.wasm")
+    ),
+  });
+
+export const openDB = async (
+  data: Uint8Array | null = null,
+  storage: StorageBackend = new MemoryStorage()
+) => new DB(await loadSQL(), data, storage);
@@ -1,12 +1,60 @@
+/// <reference types="vitest/config" />
 import path from "path";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from "vite";
+import { VitePWA } from "vite-plugin-pwa";
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // Ask before swapping in a new build so an open planner isn't
+      // reloaded out from under someone mid-edit
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "apple-touch-icon-180x180.png"],
+      manifest: {
+        name: "Planner",
+        short_name: "Planner",
+        description: "Plan your days, weeks, months and year.",
+        theme_color: "#18181b",
+        background_color: "#f4f4f5",
+        display: "standalone",
+        icons: [
+          {
+            src: "pwa-192x192.png",
+            sizes: "192x192",
+            type: "image/png",
+          },
+          {
+            src: "pwa-512x512.png",
+            sizes: "512x512",
+            type: "image/png",
+          },
+          {
+            src: "maskable-icon-512x512.png",
+            sizes: "512x512",
+            type: "image/png",
+            purpose: "maskable",
+          },
+        ],
+      },
+      workbox: {
+        // The sql.js wasm has to be precached or the app can't start offline
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,wasm}"],
+      },
+    }),
+  ],
+  server: {
+    // The sync API runs under `wrangler pages dev`, on its default port
+    proxy: { "/api": "http://localhost:8788" },
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // The app's tests need window, document and localStorage
+    environment: "happy-dom",
+  },
 });